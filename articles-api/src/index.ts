@@ -3,26 +3,82 @@
  *
  * Endpoints:
  * - GET /articles/:id - Retrieve article HTML from R2
- * - PUT /articles/:id - Store article HTML to R2 (requires auth)
- * - DELETE /articles/:id - Delete article HTML from R2 (requires auth)
+ * - PUT /articles/:id - Store article HTML to R2 as a new version (requires auth)
+ * - DELETE /articles/:id - Delete article HTML and its versions from R2 (requires auth)
+ * - GET /articles/:id/versions - List stored versions of an article
+ * - GET /articles/:id/versions/:version - Retrieve a specific version
+ * - POST /articles/:id/versions/:version/restore - Make a version current (requires auth)
+ * - PUT /articles/:id/raw - Store the raw fetched HTML snapshot, gzip-compressed (requires auth)
+ * - GET /articles/:id/raw - Retrieve the raw HTML snapshot (requires auth)
+ * - GET /articles?cursor= - List stored articles page by page (requires auth)
+ * - POST /articles/batch-put - Store many articles from an NDJSON body (requires auth)
+ * - POST /articles/batch-delete - Delete many articles at once (requires auth)
+ * - POST /articles/batch-quarantine - Move many articles under quarantine/ (requires auth)
+ * - GET /search?q= - Search article text with site, category and date filters (search env only)
  * - GET /health - Health check
  *
+ * Scheduled:
+ * - Daily cron prunes raw snapshots older than RAW_RETENTION_DAYS
+ *
  * Usage:
  * - Run locally: `pnpm dev`
- * - Deploy: `pnpm deploy`
+ * - Deploy: `pnpm deploy`, or `pnpm deploy:search` with the D1 search index
  * - Test: `pnpm test`
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import {
+	htmlToText,
+	indexArticle,
+	reindexArticleText,
+	removeFromIndex,
+	searchArticles,
+	type SearchDocument,
+	type SearchFilters,
+	type SearchHit,
+	type SearchSort,
+} from './search';
 
 interface ArticlePutRequest {
 	content: string;
+	// Version of the scraper's HTML pipeline that produced the content
+	pipelineVersion?: string;
+}
+
+interface RawPutRequest {
+	content: string;
+	// URL the snapshot was fetched from
+	url?: string;
+}
+
+interface BatchPutLine extends ArticlePutRequest {
+	id: string | number;
+	// Raw fetched HTML, stored as a snapshot next to the processed content
+	raw?: string;
+	url?: string;
+	// Plain text and metadata for the search index
+	search?: Omit<SearchDocument, 'url'>;
 }
 
 interface ArticlePutResponse {
 	success: boolean;
 	key: string;
 	size: number;
+	version: string;
+}
+
+interface ArticleVersion {
+	version: string;
+	size: number;
+	uploaded: string;
+	pipelineVersion: string | null;
+	processedAt: string | null;
+}
+
+interface ArticleVersionsResponse {
+	id: string;
+	current: string | null;
+	versions: ArticleVersion[];
 }
 
 interface ArticleDeleteResponse {
@@ -36,8 +92,123 @@ interface ErrorResponse {
 	message: string;
 }
 
+interface ArticleListItem {
+	id: string;
+	key: string;
+	size: number;
+	uploaded: string;
+}
+
+interface ArticleListResponse {
+	articles: ArticleListItem[];
+	cursor: string | null;
+	truncated: boolean;
+}
+
+interface BatchDeleteRequest {
+	ids: string[];
+}
+
+interface BatchItemResult {
+	id: string;
+	key: string;
+	success: boolean;
+	size?: number;
+	version?: string;
+	rawStored?: boolean;
+	indexed?: boolean;
+	error?: string;
+}
+
+interface BatchResponse {
+	success: boolean;
+	results: BatchItemResult[];
+}
+
+interface SearchParams {
+	query: string;
+	filters: SearchFilters;
+	sort: SearchSort;
+	limit: number;
+	offset: number;
+}
+
+interface SearchResponse {
+	query: string;
+	results: SearchHit[];
+	hasMore: boolean;
+}
+
+type AppContext = Context<{ Bindings: Env }>;
+
+const ARTICLE_KEY_SUFFIX = '.html';
+
+// Quarantined objects are kept under this prefix instead of being deleted
+const QUARANTINE_PREFIX = 'quarantine/';
+
+// Every stored content is kept as versions/<id>/<version>.html; <id>.html
+// holds a copy of the current version with the pointer in its custom metadata
+const VERSIONS_PREFIX = 'versions/';
+
+// Older versions beyond this count are pruned on every put
+const MAX_VERSIONS = 10;
+
+// Raw fetched HTML is kept gzip-compressed as raw/<id>.html.gz and pruned
+// by age (RAW_RETENTION_DAYS) independently of the processed content
+const RAW_PREFIX = 'raw/';
+const RAW_KEY_SUFFIX = '.html.gz';
+const DEFAULT_RAW_RETENTION_DAYS = 90;
+
+// R2 delete() accepts at most 1000 keys per call
+const MAX_DELETE_KEYS = 1000;
+
+// R2 list() returns at most 1000 keys per call
+const DEFAULT_LIST_LIMIT = 1000;
+
+// Articles per batch-delete/batch-quarantine request; each article lists and
+// deletes its versions, so this keeps a request within the subrequest limit
+const MAX_BATCH_DELETE = 100;
+
+// Keep a single batch-put well below the Workers request body limit
+const MAX_BATCH_PUT = 100;
+
+const ARTICLE_ID_REGEX = /^[\w-]+$/;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+
 const app = new Hono<{ Bindings: Env }>();
 
+/**
+ * Check the Bearer token against API_SECRET
+ * @returns An error response, or null if the request is authorized
+ */
+function checkAuth(c: AppContext): Response | null {
+	const authHeader = c.req.header('Authorization');
+	if (!authHeader || !authHeader.startsWith('Bearer ')) {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Unauthorized',
+				message: 'Missing or invalid Authorization header',
+			},
+			401,
+		);
+	}
+
+	const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+	if (token !== c.env.API_SECRET) {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Unauthorized',
+				message: 'Invalid API token',
+			},
+			401,
+		);
+	}
+
+	return null;
+}
+
 /**
  * Health check endpoint
  */
@@ -48,6 +219,465 @@ app.get('/health', (c) => {
 	});
 });
 
+/**
+ * Store content as a new version and make it current
+ */
+async function storeArticle(
+	bucket: R2Bucket,
+	articleId: string,
+	content: string,
+	pipelineVersion?: string,
+): Promise<{ key: string; size: number; version: string }> {
+	const key = `${articleId}${ARTICLE_KEY_SUFFIX}`;
+	// Zero-padded timestamps sort lexicographically in R2 listings; the
+	// random suffix keeps puts within the same millisecond apart
+	const version = `${String(Date.now()).padStart(15, '0')}-${crypto.randomUUID().slice(0, 8)}`;
+	const customMetadata = {
+		currentVersion: version,
+		pipelineVersion: pipelineVersion ?? '',
+		processedAt: new Date().toISOString(),
+	};
+	const httpMetadata = { contentType: 'text/html; charset=utf-8' };
+
+	await bucket.put(`${versionPrefix(articleId)}${version}${ARTICLE_KEY_SUFFIX}`, content, { httpMetadata, customMetadata });
+	await bucket.put(key, content, { httpMetadata, customMetadata });
+	await pruneVersions(bucket, articleId);
+
+	return { key, size: new Blob([content]).size, version };
+}
+
+function versionPrefix(articleId: string): string {
+	return `${VERSIONS_PREFIX}${articleId}/`;
+}
+
+/**
+ * List an article's versions, oldest first
+ */
+async function listVersions(bucket: R2Bucket, articleId: string): Promise<R2Object[]> {
+	const objects: R2Object[] = [];
+	let cursor: string | undefined;
+
+	do {
+		const listed = await bucket.list({ prefix: versionPrefix(articleId), cursor, include: ['customMetadata'] });
+		objects.push(...listed.objects);
+		cursor = listed.truncated ? listed.cursor : undefined;
+	} while (cursor);
+
+	return objects;
+}
+
+/**
+ * Delete versions beyond MAX_VERSIONS, oldest first
+ */
+async function pruneVersions(bucket: R2Bucket, articleId: string): Promise<void> {
+	const versions = await listVersions(bucket, articleId);
+	if (versions.length > MAX_VERSIONS) {
+		await bucket.delete(versions.slice(0, versions.length - MAX_VERSIONS).map((object) => object.key));
+	}
+}
+
+/**
+ * Delete every version of an article
+ */
+async function deleteVersions(bucket: R2Bucket, articleId: string): Promise<void> {
+	const versions = await listVersions(bucket, articleId);
+	if (versions.length > 0) {
+		await bucket.delete(versions.map((object) => object.key));
+	}
+}
+
+function rawKey(articleId: string): string {
+	return `${RAW_PREFIX}${articleId}${RAW_KEY_SUFFIX}`;
+}
+
+/**
+ * Store raw fetched HTML gzip-compressed
+ */
+async function storeRawSnapshot(
+	bucket: R2Bucket,
+	articleId: string,
+	html: string,
+	sourceUrl?: string,
+): Promise<{ key: string; size: number; compressedSize: number }> {
+	const compressed = await new Response(new Blob([html]).stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer();
+	const key = rawKey(articleId);
+
+	await bucket.put(key, compressed, {
+		httpMetadata: { contentType: 'text/html; charset=utf-8', contentEncoding: 'gzip' },
+		customMetadata: { url: sourceUrl ?? '', fetchedAt: new Date().toISOString() },
+	});
+
+	return { key, size: new Blob([html]).size, compressedSize: compressed.byteLength };
+}
+
+/**
+ * Delete keys in chunks R2 accepts
+ */
+async function deleteKeys(bucket: R2Bucket, keys: string[]): Promise<void> {
+	for (let i = 0; i < keys.length; i += MAX_DELETE_KEYS) {
+		await bucket.delete(keys.slice(i, i + MAX_DELETE_KEYS));
+	}
+}
+
+/**
+ * Delete raw snapshots older than the retention period
+ */
+async function pruneRawSnapshots(bucket: R2Bucket, retentionDays: number): Promise<number> {
+	const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+	let cursor: string | undefined;
+	let deleted = 0;
+
+	do {
+		const listed = await bucket.list({ prefix: RAW_PREFIX, cursor });
+		const expired = listed.objects.filter((object) => object.uploaded.getTime() < cutoff).map((object) => object.key);
+		if (expired.length > 0) {
+			await deleteKeys(bucket, expired);
+			deleted += expired.length;
+		}
+		cursor = listed.truncated ? listed.cursor : undefined;
+	} while (cursor);
+
+	return deleted;
+}
+
+/**
+ * Read and validate the {"ids": [...]} body of batch-delete/batch-quarantine
+ * @returns The IDs, or an error response
+ */
+async function parseBatchIds(c: AppContext): Promise<string[] | Response> {
+	let body: BatchDeleteRequest;
+	try {
+		body = await c.req.json<BatchDeleteRequest>();
+	} catch {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Bad Request',
+				message: 'Invalid JSON body',
+			},
+			400,
+		);
+	}
+
+	const ids = Array.isArray(body.ids) ? body.ids.map(String) : [];
+	if (ids.length === 0 || ids.length > MAX_BATCH_DELETE || !ids.every((id) => ARTICLE_ID_REGEX.test(id))) {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Bad Request',
+				message: `"ids" must be an array of 1 to ${MAX_BATCH_DELETE} article IDs`,
+			},
+			400,
+		);
+	}
+
+	return ids;
+}
+
+/**
+ * Check the search fields of a batch-put line
+ */
+function isSearchDocument(value: unknown): value is Omit<SearchDocument, 'url'> {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+	const doc = value as Record<string, unknown>;
+	return (
+		typeof doc.title === 'string' &&
+		typeof doc.text === 'string' &&
+		typeof doc.siteId === 'number' &&
+		typeof doc.pubDate === 'string' &&
+		(doc.category === null || typeof doc.category === 'string')
+	);
+}
+
+/**
+ * Parse an optional non-negative integer query parameter
+ * @returns The value (or the fallback when absent), or null when invalid
+ */
+function intQuery<T extends number | undefined>(c: AppContext, name: string, fallback: T): number | T | null {
+	const value = c.req.query(name);
+	if (value === undefined || value === '') {
+		return fallback;
+	}
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Read and validate the query parameters of /search
+ * @returns The parameters, or an error message
+ */
+function parseSearchParams(c: AppContext): SearchParams | string {
+	const query = c.req.query('q')?.trim();
+	if (!query) {
+		return '"q" is required';
+	}
+
+	const siteId = intQuery(c, 'site', undefined);
+	if (siteId === null) {
+		return '"site" must be a site ID';
+	}
+
+	const limit = intQuery(c, 'limit', DEFAULT_SEARCH_LIMIT);
+	if (limit === null || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+		return `"limit" must be an integer between 1 and ${MAX_SEARCH_LIMIT}`;
+	}
+
+	const offset = intQuery(c, 'offset', 0);
+	if (offset === null) {
+		return '"offset" must be a non-negative integer';
+	}
+
+	const from = c.req.query('from') || undefined;
+	const to = c.req.query('to') || undefined;
+	if ([from, to].some((date) => date !== undefined && Number.isNaN(Date.parse(date)))) {
+		return '"from" and "to" must be ISO dates';
+	}
+
+	const sort = c.req.query('sort') || 'relevance';
+	if (sort !== 'relevance' && sort !== 'date') {
+		return '"sort" must be relevance or date';
+	}
+
+	const category = c.req.query('category') || undefined;
+	return { query, filters: { siteId, category, from, to }, sort, limit, offset };
+}
+
+/**
+ * GET /articles?cursor=&limit=
+ * Lists stored articles page by page using R2 list()
+ * Requires Bearer token authentication
+ */
+app.get('/articles', async (c) => {
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
+	}
+
+	const cursor = c.req.query('cursor') || undefined;
+	const limitParam = Number(c.req.query('limit') ?? DEFAULT_LIST_LIMIT);
+	if (!Number.isInteger(limitParam) || limitParam < 1 || limitParam > DEFAULT_LIST_LIMIT) {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Bad Request',
+				message: `"limit" must be an integer between 1 and ${DEFAULT_LIST_LIMIT}`,
+			},
+			400,
+		);
+	}
+
+	try {
+		// The delimiter keeps prefixed keys (e.g. quarantine/) out of the listing
+		const listed = await c.env.articles_html.list({ cursor, limit: limitParam, delimiter: '/' });
+
+		const articles = listed.objects
+			.filter((object) => object.key.endsWith(ARTICLE_KEY_SUFFIX))
+			.map((object) => ({
+				id: object.key.slice(0, -ARTICLE_KEY_SUFFIX.length),
+				key: object.key,
+				size: object.size,
+				uploaded: object.uploaded.toISOString(),
+			}));
+
+		return c.json<ArticleListResponse>({
+			articles,
+			cursor: listed.truncated ? listed.cursor : null,
+			truncated: listed.truncated,
+		});
+	} catch (error) {
+		console.error('Error listing articles:', error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
+/**
+ * POST /articles/batch-put
+ * Stores many articles from an NDJSON body, one {"id","content"} object per line
+ * Each line is stored independently and gets its own result
+ * Requires Bearer token authentication
+ */
+app.post('/articles/batch-put', async (c) => {
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
+	}
+
+	const lines = (await c.req.text()).split('\n').filter((line) => line.trim() !== '');
+
+	if (lines.length === 0 || lines.length > MAX_BATCH_PUT) {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Bad Request',
+				message: `Body must contain between 1 and ${MAX_BATCH_PUT} NDJSON lines`,
+			},
+			400,
+		);
+	}
+
+	const results = await Promise.all(
+		lines.map(async (line, index): Promise<BatchItemResult> => {
+			let item: Partial<BatchPutLine>;
+			try {
+				item = JSON.parse(line);
+			} catch {
+				return { id: '', key: '', success: false, error: `Invalid JSON on line ${index + 1}` };
+			}
+
+			const id = String(item.id ?? '');
+			const key = `${id}${ARTICLE_KEY_SUFFIX}`;
+
+			if (!ARTICLE_ID_REGEX.test(id)) {
+				return { id, key: '', success: false, error: 'Missing or invalid "id" field' };
+			}
+			if (!item.content || typeof item.content !== 'string') {
+				return { id, key, success: false, error: 'Missing or invalid "content" field' };
+			}
+
+			try {
+				const stored = await storeArticle(c.env.articles_html, id, item.content, item.pipelineVersion);
+				const result: BatchItemResult = { id, success: true, ...stored };
+
+				// A missing snapshot or index entry is not worth failing the processed content for
+				if (typeof item.raw === 'string' && item.raw) {
+					try {
+						await storeRawSnapshot(c.env.articles_html, id, item.raw, item.url);
+						result.rawStored = true;
+					} catch (error) {
+						console.error(`Error storing raw snapshot of article ${id}:`, error);
+						result.rawStored = false;
+					}
+				}
+				if (c.env.articles_search && isSearchDocument(item.search)) {
+					try {
+						await indexArticle(c.env.articles_search, id, { ...item.search, url: item.url });
+						result.indexed = true;
+					} catch (error) {
+						console.error(`Error indexing article ${id}:`, error);
+						result.indexed = false;
+					}
+				}
+
+				return result;
+			} catch (error) {
+				console.error(`Error storing article ${id}:`, error);
+				return { id, key, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+			}
+		}),
+	);
+
+	return c.json<BatchResponse>({
+		success: results.every((result) => result.success),
+		results,
+	});
+});
+
+/**
+ * POST /articles/batch-delete
+ * Deletes many articles in a single R2 call
+ * Deleting keys that do not exist is not an error (idempotent)
+ * Requires Bearer token authentication
+ */
+app.post('/articles/batch-delete', async (c) => {
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
+	}
+
+	const ids = await parseBatchIds(c);
+	if (ids instanceof Response) {
+		return ids;
+	}
+
+	const keys = ids.map((id) => `${id}${ARTICLE_KEY_SUFFIX}`);
+
+	try {
+		await deleteKeys(c.env.articles_html, [...keys, ...ids.map(rawKey)]);
+		await Promise.all(ids.map((id) => deleteVersions(c.env.articles_html, id)));
+		if (c.env.articles_search) {
+			await removeFromIndex(c.env.articles_search, ids);
+		}
+
+		return c.json<BatchResponse>({
+			success: true,
+			results: ids.map((id, i) => ({ id, key: keys[i], success: true })),
+		});
+	} catch (error) {
+		console.error('Error batch deleting articles:', error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
+/**
+ * POST /articles/batch-quarantine
+ * Moves articles to quarantine/<id>.html (and their raw snapshots to
+ * quarantine/raw/<id>.html.gz) so they can be inspected or restored instead
+ * of being deleted outright. Older versions are deleted and the articles
+ * are removed from the search index.
+ * Requires Bearer token authentication
+ */
+app.post('/articles/batch-quarantine', async (c) => {
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
+	}
+
+	const ids = await parseBatchIds(c);
+	if (ids instanceof Response) {
+		return ids;
+	}
+
+	const quarantinedAt = new Date().toISOString();
+	const results = await Promise.all(
+		ids.map(async (id): Promise<BatchItemResult> => {
+			const key = `${id}${ARTICLE_KEY_SUFFIX}`;
+			try {
+				const object = await c.env.articles_html.get(key);
+				if (object) {
+					await c.env.articles_html.put(`${QUARANTINE_PREFIX}${key}`, object.body, {
+						httpMetadata: object.httpMetadata,
+						customMetadata: { quarantinedAt },
+					});
+				}
+
+				const raw = await c.env.articles_html.get(rawKey(id));
+				if (raw) {
+					await c.env.articles_html.put(`${QUARANTINE_PREFIX}${rawKey(id)}`, raw.body, {
+						httpMetadata: raw.httpMetadata,
+						customMetadata: { ...raw.customMetadata, quarantinedAt },
+					});
+				}
+
+				// Deleting what is already gone is not an error (idempotent)
+				await c.env.articles_html.delete([key, rawKey(id)]);
+				await deleteVersions(c.env.articles_html, id);
+				if (c.env.articles_search) {
+					await removeFromIndex(c.env.articles_search, [id]);
+				}
+				return { id, key, success: true, size: object?.size };
+			} catch (error) {
+				console.error(`Error quarantining article ${id}:`, error);
+				return { id, key, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+			}
+		}),
+	);
+
+	return c.json<BatchResponse>({
+		success: results.every((result) => result.success),
+		results,
+	});
+});
+
 /**
  * GET /articles/:id
  * Retrieves article HTML from R2 bucket
@@ -74,6 +704,7 @@ app.get('/articles/:id', async (c) => {
 			'Content-Type': 'text/html; charset=utf-8',
 			'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
 			ETag: object.httpEtag || '',
+			'X-Article-Version': object.customMetadata?.currentVersion ?? '',
 		});
 	} catch (error) {
 		console.error(`Error fetching article ${articleId}:`, error);
@@ -95,27 +726,9 @@ app.get('/articles/:id', async (c) => {
 app.put('/articles/:id', async (c) => {
 	const articleId = c.req.param('id');
 
-	// Authentication check
-	const authHeader = c.req.header('Authorization');
-	if (!authHeader || !authHeader.startsWith('Bearer ')) {
-		return c.json<ErrorResponse>(
-			{
-				error: 'Unauthorized',
-				message: 'Missing or invalid Authorization header',
-			},
-			401,
-		);
-	}
-
-	const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-	if (token !== c.env.API_SECRET) {
-		return c.json<ErrorResponse>(
-			{
-				error: 'Unauthorized',
-				message: 'Invalid API token',
-			},
-			401,
-		);
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
 	}
 
 	try {
@@ -132,19 +745,13 @@ app.put('/articles/:id', async (c) => {
 			);
 		}
 
-		// Store in R2
-		const key = `${articleId}.html`;
-		await c.env.articles_html.put(key, body.content, {
-			httpMetadata: {
-				contentType: 'text/html; charset=utf-8',
-			},
-		});
+		// Store in R2 as a new version
+		const stored = await storeArticle(c.env.articles_html, articleId, body.content, body.pipelineVersion);
 
 		// Return success response
 		return c.json<ArticlePutResponse>({
 			success: true,
-			key,
-			size: new Blob([body.content]).size,
+			...stored,
 		});
 	} catch (error) {
 		// Handle JSON parse errors
@@ -177,32 +784,19 @@ app.put('/articles/:id', async (c) => {
 app.delete('/articles/:id', async (c) => {
 	const articleId = c.req.param('id');
 
-	// Authentication check
-	const authHeader = c.req.header('Authorization');
-	if (!authHeader || !authHeader.startsWith('Bearer ')) {
-		return c.json<ErrorResponse>(
-			{
-				error: 'Unauthorized',
-				message: 'Missing or invalid Authorization header',
-			},
-			401,
-		);
-	}
-
-	const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-	if (token !== c.env.API_SECRET) {
-		return c.json<ErrorResponse>(
-			{
-				error: 'Unauthorized',
-				message: 'Invalid API token',
-			},
-			401,
-		);
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
 	}
 
 	try {
 		const key = `${articleId}.html`;
 
+		// The index entry goes even when R2 no longer has the article
+		if (c.env.articles_search) {
+			await removeFromIndex(c.env.articles_search, [articleId]);
+		}
+
 		// Check if file exists before deleting
 		const object = await c.env.articles_html.get(key);
 
@@ -216,8 +810,9 @@ app.delete('/articles/:id', async (c) => {
 			});
 		}
 
-		// Delete from R2
-		await c.env.articles_html.delete(key);
+		// Delete from R2, including stored versions and the raw snapshot
+		await c.env.articles_html.delete([key, rawKey(articleId)]);
+		await deleteVersions(c.env.articles_html, articleId);
 
 		return c.json<ArticleDeleteResponse>({
 			success: true,
@@ -236,6 +831,291 @@ app.delete('/articles/:id', async (c) => {
 	}
 });
 
+/**
+ * GET /articles/:id/versions
+ * Lists stored versions of an article, newest first
+ */
+app.get('/articles/:id/versions', async (c) => {
+	const articleId = c.req.param('id');
+
+	try {
+		const [current, versions] = await Promise.all([
+			c.env.articles_html.head(`${articleId}${ARTICLE_KEY_SUFFIX}`),
+			listVersions(c.env.articles_html, articleId),
+		]);
+
+		if (!current && versions.length === 0) {
+			return c.json<ErrorResponse>(
+				{
+					error: 'Not Found',
+					message: `Article ${articleId} not found in R2`,
+				},
+				404,
+			);
+		}
+
+		return c.json<ArticleVersionsResponse>({
+			id: articleId,
+			current: current?.customMetadata?.currentVersion ?? null,
+			versions: versions.reverse().map((object) => ({
+				version: object.key.slice(versionPrefix(articleId).length, -ARTICLE_KEY_SUFFIX.length),
+				size: object.size,
+				uploaded: object.uploaded.toISOString(),
+				pipelineVersion: object.customMetadata?.pipelineVersion || null,
+				processedAt: object.customMetadata?.processedAt ?? null,
+			})),
+		});
+	} catch (error) {
+		console.error(`Error listing versions of article ${articleId}:`, error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
+/**
+ * GET /articles/:id/versions/:version
+ * Retrieves a specific version of an article
+ */
+app.get('/articles/:id/versions/:version', async (c) => {
+	const articleId = c.req.param('id');
+	const version = c.req.param('version');
+
+	try {
+		const object = await c.env.articles_html.get(`${versionPrefix(articleId)}${version}${ARTICLE_KEY_SUFFIX}`);
+
+		if (!object) {
+			return c.json<ErrorResponse>(
+				{
+					error: 'Not Found',
+					message: `Version ${version} of article ${articleId} not found in R2`,
+				},
+				404,
+			);
+		}
+
+		// Versions never change, so they can be cached for long
+		return c.body(object.body, 200, {
+			'Content-Type': 'text/html; charset=utf-8',
+			'Cache-Control': 'public, max-age=86400',
+			ETag: object.httpEtag || '',
+			'X-Article-Version': version,
+		});
+	} catch (error) {
+		console.error(`Error fetching version ${version} of article ${articleId}:`, error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
+/**
+ * POST /articles/:id/versions/:version/restore
+ * Makes a stored version current again (rollback) and re-indexes its text
+ * Requires Bearer token authentication
+ */
+app.post('/articles/:id/versions/:version/restore', async (c) => {
+	const articleId = c.req.param('id');
+	const version = c.req.param('version');
+
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
+	}
+
+	try {
+		const object = await c.env.articles_html.get(`${versionPrefix(articleId)}${version}${ARTICLE_KEY_SUFFIX}`);
+
+		if (!object) {
+			return c.json<ErrorResponse>(
+				{
+					error: 'Not Found',
+					message: `Version ${version} of article ${articleId} not found in R2`,
+				},
+				404,
+			);
+		}
+
+		const key = `${articleId}${ARTICLE_KEY_SUFFIX}`;
+		const content = await object.text();
+		await c.env.articles_html.put(key, content, {
+			httpMetadata: object.httpMetadata,
+			customMetadata: { ...object.customMetadata, currentVersion: version },
+		});
+		if (c.env.articles_search) {
+			await reindexArticleText(c.env.articles_search, articleId, htmlToText(content));
+		}
+
+		return c.json<ArticlePutResponse>({
+			success: true,
+			key,
+			size: object.size,
+			version,
+		});
+	} catch (error) {
+		console.error(`Error restoring version ${version} of article ${articleId}:`, error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
+/**
+ * PUT /articles/:id/raw
+ * Stores the raw fetched HTML of an article, gzip-compressed
+ * Requires Bearer token authentication
+ */
+app.put('/articles/:id/raw', async (c) => {
+	const articleId = c.req.param('id');
+
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
+	}
+
+	let body: RawPutRequest;
+	try {
+		body = await c.req.json<RawPutRequest>();
+	} catch {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Bad Request',
+				message: 'Invalid JSON body',
+			},
+			400,
+		);
+	}
+
+	if (!body.content || typeof body.content !== 'string') {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Bad Request',
+				message: 'Missing or invalid "content" field',
+			},
+			400,
+		);
+	}
+
+	try {
+		const stored = await storeRawSnapshot(c.env.articles_html, articleId, body.content, body.url);
+		return c.json({ success: true, ...stored });
+	} catch (error) {
+		console.error(`Error storing raw snapshot of article ${articleId}:`, error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
+/**
+ * GET /articles/:id/raw
+ * Retrieves the raw fetched HTML of an article (decompressed)
+ * Requires Bearer token authentication, since snapshots may include
+ * content the processed version removes
+ */
+app.get('/articles/:id/raw', async (c) => {
+	const articleId = c.req.param('id');
+
+	const authError = checkAuth(c);
+	if (authError) {
+		return authError;
+	}
+
+	try {
+		const object = await c.env.articles_html.get(rawKey(articleId));
+
+		if (!object) {
+			return c.json<ErrorResponse>(
+				{
+					error: 'Not Found',
+					message: `Raw snapshot of article ${articleId} not found in R2`,
+				},
+				404,
+			);
+		}
+
+		return c.body(object.body.pipeThrough(new DecompressionStream('gzip')), 200, {
+			'Content-Type': 'text/html; charset=utf-8',
+			'X-Source-Url': object.customMetadata?.url ?? '',
+			'X-Fetched-At': object.customMetadata?.fetchedAt ?? '',
+		});
+	} catch (error) {
+		console.error(`Error fetching raw snapshot of article ${articleId}:`, error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
+/**
+ * GET /search?q=&site=&category=&from=&to=&sort=&limit=&offset=
+ * Searches article text; Japanese is matched by character bigrams
+ * `from` and `to` are ISO dates (`to` exclusive), `sort` is relevance or date
+ */
+app.get('/search', async (c) => {
+	if (!c.env.articles_search) {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Service Unavailable',
+				message: 'Search is not enabled for this deployment',
+			},
+			503,
+		);
+	}
+
+	const params = parseSearchParams(c);
+	if (typeof params === 'string') {
+		return c.json<ErrorResponse>(
+			{
+				error: 'Bad Request',
+				message: params,
+			},
+			400,
+		);
+	}
+
+	const { query, filters, sort, limit, offset } = params;
+	try {
+		// One extra row tells whether another page exists
+		const hits = await searchArticles(c.env.articles_search, query, filters, sort, limit + 1, offset);
+
+		return c.json<SearchResponse>({
+			query,
+			results: hits.slice(0, limit),
+			hasMore: hits.length > limit,
+		});
+	} catch (error) {
+		console.error(`Error searching articles for "${query}":`, error);
+		return c.json<ErrorResponse>(
+			{
+				error: 'Internal Server Error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500,
+		);
+	}
+});
+
 // 404 handler
 app.notFound((c) => {
 	return c.json<ErrorResponse>(
@@ -247,4 +1127,18 @@ app.notFound((c) => {
 	);
 });
 
-export default app;
+export default {
+	fetch: app.fetch,
+
+	/**
+	 * Daily cron: prune raw snapshots past their retention period
+	 */
+	async scheduled(_controller, env, ctx) {
+		const retentionDays = Number(env.RAW_RETENTION_DAYS) || DEFAULT_RAW_RETENTION_DAYS;
+		ctx.waitUntil(
+			pruneRawSnapshots(env.articles_html, retentionDays).then((deleted) => {
+				console.log(`Pruned ${deleted} raw snapshots older than ${retentionDays} days`);
+			}),
+		);
+	},
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,311 @@
+/**
+ * Full-text search over article text, stored in D1
+ *
+ * The scraper sends the plain text of each processed article with batch-put.
+ * Documents and queries are tokenized the same way: words of letters and
+ * digits are kept whole, and runs of Japanese (kanji and kana), which have
+ * no spaces to split on, become overlapping bigrams. Tokens are stored
+ * space-separated in an FTS5 table, so its tokenizer only splits on spaces.
+ */
+
+export interface SearchDocument {
+	title: string;
+	// Plain text of the processed article
+	text: string;
+	siteId: number;
+	category: string | null;
+	// ISO date
+	pubDate: string;
+	url?: string;
+}
+
+export interface SearchFilters {
+	siteId?: number;
+	category?: string;
+	// ISO dates; `to` is exclusive
+	from?: string;
+	to?: string;
+}
+
+export type SearchSort = 'relevance' | 'date';
+
+export interface SearchHit {
+	id: string;
+	siteId: number;
+	category: string | null;
+	title: string;
+	url: string | null;
+	pubDate: string;
+	// HTML-escaped excerpt with matches wrapped in <mark>
+	snippet: string;
+}
+
+// Text beyond this length is neither indexed nor used for snippets
+const MAX_INDEXED_TEXT_LENGTH = 20000;
+
+const SNIPPET_LENGTH = 160;
+// Characters shown before the first match
+const SNIPPET_CONTEXT = 40;
+
+// D1 accepts at most 100 bound parameters per statement
+const MAX_BOUND_PARAMETERS = 100;
+
+const JAPANESE_CHARS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}ー々';
+const JAPANESE_RUN = new RegExp(`^[${JAPANESE_CHARS}]+$`, 'u');
+const TOKEN_RUN = new RegExp(`[${JAPANESE_CHARS}]+|(?:(?![${JAPANESE_CHARS}])[\\p{L}\\p{N}])+`, 'gu');
+
+// Created on first use; IF NOT EXISTS makes repeating them cheap
+const SCHEMA = [
+	`CREATE TABLE IF NOT EXISTS search_articles (
+		id TEXT PRIMARY KEY,
+		site_id INTEGER NOT NULL,
+		category TEXT,
+		title TEXT NOT NULL,
+		url TEXT,
+		pub_date TEXT NOT NULL,
+		body TEXT NOT NULL
+	)`,
+	'CREATE INDEX IF NOT EXISTS search_articles_pub_date ON search_articles (pub_date)',
+	'CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(id UNINDEXED, tokens)',
+];
+
+function normalize(text: string): string {
+	return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * Runs of word characters and of Japanese characters in normalized text
+ */
+function tokenRuns(text: string): string[] {
+	return normalize(text).match(TOKEN_RUN) ?? [];
+}
+
+/**
+ * Split text into index tokens
+ * A Japanese run becomes its bigrams plus its last character, so every
+ * character starts some token and one-character queries can match by prefix.
+ */
+export function tokenize(text: string): string[] {
+	return tokenRuns(text).flatMap((run) => {
+		if (!JAPANESE_RUN.test(run)) {
+			return [run];
+		}
+		const chars = Array.from(run);
+		const bigrams = chars.slice(0, -1).map((char, i) => char + chars[i + 1]);
+		return [...bigrams, chars[chars.length - 1]];
+	});
+}
+
+/**
+ * FTS5 query matching every run of the search text, or null when the text
+ * has nothing to search for
+ */
+export function toMatchQuery(query: string): string | null {
+	const phrases = tokenRuns(query).map((run) => {
+		if (!JAPANESE_RUN.test(run)) {
+			return `"${run}"`;
+		}
+		const chars = Array.from(run);
+		if (chars.length === 1) {
+			return `"${run}" *`;
+		}
+		// Adjacent bigrams, without the trailing character documents also get
+		return `"${chars
+			.slice(0, -1)
+			.map((char, i) => char + chars[i + 1])
+			.join(' ')}"`;
+	});
+	return phrases.length > 0 ? phrases.join(' AND ') : null;
+}
+
+/**
+ * Excerpt of the text around the first match, with matches highlighted
+ */
+export function buildSnippet(text: string, query: string): string {
+	const runs = [...new Set(tokenRuns(query))].sort((a, b) => b.length - a.length);
+	const pattern = runs.length > 0 ? new RegExp(runs.map(escapeRegExp).join('|'), 'giu') : null;
+
+	const first = pattern ? text.search(pattern) : -1;
+	const start = first > SNIPPET_CONTEXT ? first - SNIPPET_CONTEXT : 0;
+	const end = start + SNIPPET_LENGTH;
+	const excerpt = text.slice(start, end);
+
+	let highlighted = '';
+	let last = 0;
+	for (const match of pattern ? excerpt.matchAll(pattern) : []) {
+		const index = match.index ?? 0;
+		highlighted += `${escapeHtml(excerpt.slice(last, index))}<mark>${escapeHtml(match[0])}</mark>`;
+		last = index + match[0].length;
+	}
+	highlighted += escapeHtml(excerpt.slice(last));
+
+	return `${start > 0 ? '…' : ''}${highlighted}${end < text.length ? '…' : ''}`;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function schemaStatements(db: D1Database): D1PreparedStatement[] {
+	return SCHEMA.map((sql) => db.prepare(sql));
+}
+
+/**
+ * Add or replace an article in the index
+ */
+export async function indexArticle(db: D1Database, id: string, doc: SearchDocument): Promise<void> {
+	// Snippets are cut from the stored body, so store it normalized like the tokens
+	const body = doc.text.normalize('NFKC').slice(0, MAX_INDEXED_TEXT_LENGTH);
+	const tokens = tokenize(`${doc.title}\n${body}`).join(' ');
+
+	await db.batch([
+		...schemaStatements(db),
+		db.prepare('DELETE FROM search_fts WHERE id = ?').bind(id),
+		db.prepare('INSERT INTO search_fts (id, tokens) VALUES (?, ?)').bind(id, tokens),
+		db
+			.prepare('INSERT OR REPLACE INTO search_articles (id, site_id, category, title, url, pub_date, body) VALUES (?, ?, ?, ?, ?, ?, ?)')
+			.bind(id, doc.siteId, doc.category, doc.title, doc.url ?? null, doc.pubDate, body),
+	]);
+}
+
+/**
+ * Index new text for an article that is already indexed, keeping its title,
+ * URL and filter values
+ * @returns false when the article is not in the index
+ */
+export async function reindexArticleText(db: D1Database, id: string, text: string): Promise<boolean> {
+	const results = await db.batch<Omit<SearchRow, 'body'>>([
+		...schemaStatements(db),
+		db.prepare('SELECT id, site_id, category, title, url, pub_date FROM search_articles WHERE id = ?').bind(id),
+	]);
+	const row = results[results.length - 1].results[0];
+	if (!row) {
+		return false;
+	}
+
+	await indexArticle(db, id, {
+		title: row.title,
+		text,
+		siteId: row.site_id,
+		category: row.category,
+		pubDate: row.pub_date,
+		url: row.url ?? undefined,
+	});
+	return true;
+}
+
+/**
+ * Visible text of stored article HTML, close to what the scraper indexes
+ */
+export function htmlToText(html: string): string {
+	const text = html
+		.replace(/<(head|script|style|noscript)\b[\s\S]*?<\/\1>/gi, ' ')
+		.replace(/<[^>]*>/g, ' ')
+		.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => decodeEntity(name) ?? entity);
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntity(name: string): string | null {
+	if (name[0] !== '#') {
+		return NAMED_ENTITIES[name.toLowerCase()] ?? null;
+	}
+	const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+	return Number.isInteger(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : null;
+}
+
+/**
+ * Remove articles from the index; unknown IDs are ignored
+ */
+export async function removeFromIndex(db: D1Database, ids: string[]): Promise<void> {
+	if (ids.length === 0) {
+		return;
+	}
+
+	const statements = schemaStatements(db);
+	for (let i = 0; i < ids.length; i += MAX_BOUND_PARAMETERS) {
+		const chunk = ids.slice(i, i + MAX_BOUND_PARAMETERS);
+		const placeholders = chunk.map(() => '?').join(', ');
+		statements.push(
+			db.prepare(`DELETE FROM search_fts WHERE id IN (${placeholders})`).bind(...chunk),
+			db.prepare(`DELETE FROM search_articles WHERE id IN (${placeholders})`).bind(...chunk),
+		);
+	}
+	await db.batch(statements);
+}
+
+interface SearchRow {
+	id: string;
+	site_id: number;
+	category: string | null;
+	title: string;
+	url: string | null;
+	pub_date: string;
+	body: string;
+}
+
+/**
+ * Search indexed articles
+ * @returns Up to `limit` hits after skipping `offset`
+ */
+export async function searchArticles(
+	db: D1Database,
+	query: string,
+	filters: SearchFilters,
+	sort: SearchSort,
+	limit: number,
+	offset: number,
+): Promise<SearchHit[]> {
+	const match = toMatchQuery(query);
+	if (!match) {
+		return [];
+	}
+
+	const conditions = ['search_fts MATCH ?'];
+	const params: (string | number)[] = [match];
+	if (filters.siteId !== undefined) {
+		conditions.push('a.site_id = ?');
+		params.push(filters.siteId);
+	}
+	if (filters.category !== undefined) {
+		conditions.push('a.category = ?');
+		params.push(filters.category);
+	}
+	if (filters.from !== undefined) {
+		conditions.push('a.pub_date >= ?');
+		params.push(filters.from);
+	}
+	if (filters.to !== undefined) {
+		conditions.push('a.pub_date < ?');
+		params.push(filters.to);
+	}
+
+	const orderBy = sort === 'date' ? 'a.pub_date DESC' : 'search_fts.rank, a.pub_date DESC';
+	const select = db
+		.prepare(
+			`SELECT a.id, a.site_id, a.category, a.title, a.url, a.pub_date, a.body
+			FROM search_fts JOIN search_articles a ON a.id = search_fts.id
+			WHERE ${conditions.join(' AND ')}
+			ORDER BY ${orderBy}
+			LIMIT ? OFFSET ?`,
+		)
+		.bind(...params, limit, offset);
+
+	const results = await db.batch<SearchRow>([...schemaStatements(db), select]);
+	const rows = results[results.length - 1].results;
+
+	return rows.map((row) => ({
+		id: row.id,
+		siteId: row.site_id,
+		category: row.category,
+		title: row.title,
+		url: row.url,
+		pubDate: row.pub_date,
+		snippet: buildSnippet(row.body, query),
+	}));
+}
@@ -232,6 +232,611 @@ describe('articles-api', () => {
 		});
 	});
 
+	describe('POST /articles/batch-put', () => {
+		it('stores each NDJSON line and returns per-item results', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const body = [
+				JSON.stringify({ id: 'batch-1', content: testContent }),
+				JSON.stringify({ id: 'batch-2', content: testContent }),
+				JSON.stringify({ id: 'batch-3' }),
+			].join('\n');
+			const request = new Request('http://example.com/articles/batch-put', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/x-ndjson',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body,
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data.success).toBe(false);
+			expect(data.results).toHaveLength(3);
+			expect(data.results[0]).toMatchObject({ id: 'batch-1', key: 'batch-1.html', success: true });
+			expect(data.results[1]).toMatchObject({ id: 'batch-2', success: true });
+			expect(data.results[2]).toMatchObject({ id: 'batch-3', success: false });
+
+			const stored = await app.fetch(new Request('http://example.com/articles/batch-2'), env);
+			expect(await stored.text()).toBe(testContent);
+		});
+
+		it('returns 400 for an empty body', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-put', {
+				method: 'POST',
+				headers: {
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: '',
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(400);
+			const data = await response.json();
+			expect(data).toHaveProperty('error', 'Bad Request');
+		});
+
+		it('returns 401 for invalid token', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-put', {
+				method: 'POST',
+				headers: {
+					'Authorization': 'Bearer wrong-token',
+				},
+				body: JSON.stringify({ id: 'batch-1', content: testContent }),
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('POST /articles/batch-delete', () => {
+		beforeEach(async () => {
+			// Setup: Store test article
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request(`http://example.com/articles/${testArticleId}`, {
+				method: 'PUT',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: JSON.stringify({ content: testContent }),
+			});
+			await app.fetch(request, testEnv);
+		});
+
+		it('deletes existing and missing articles', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-delete', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: JSON.stringify({ ids: [testArticleId, '999999'] }),
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data.success).toBe(true);
+			expect(data.results).toEqual([
+				{ id: testArticleId, key: `${testArticleId}.html`, success: true },
+				{ id: '999999', key: '999999.html', success: true },
+			]);
+
+			const deleted = await app.fetch(new Request(`http://example.com/articles/${testArticleId}`), env);
+			expect(deleted.status).toBe(404);
+		});
+
+		it('returns 400 for missing ids', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-delete', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: JSON.stringify({ ids: [] }),
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(400);
+			const data = await response.json();
+			expect(data).toHaveProperty('error', 'Bad Request');
+		});
+
+		it('returns 400 for more than 100 ids', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-delete', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: JSON.stringify({ ids: Array.from({ length: 101 }, (_, i) => String(i + 1)) }),
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(400);
+			const data = await response.json();
+			expect(data).toHaveProperty('error', 'Bad Request');
+		});
+
+		it('returns 401 for missing Authorization header', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-delete', {
+				method: 'POST',
+				body: JSON.stringify({ ids: [testArticleId] }),
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('POST /articles/batch-quarantine', () => {
+		beforeEach(async () => {
+			// Setup: Store test article
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request(`http://example.com/articles/${testArticleId}`, {
+				method: 'PUT',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: JSON.stringify({ content: testContent }),
+			});
+			await app.fetch(request, testEnv);
+		});
+
+		it('moves articles under quarantine/ and hides them from listing', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-quarantine', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: JSON.stringify({ ids: [testArticleId] }),
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data.results[0]).toMatchObject({ id: testArticleId, success: true });
+
+			const original = await app.fetch(new Request(`http://example.com/articles/${testArticleId}`), env);
+			expect(original.status).toBe(404);
+
+			const quarantined = await env.articles_html.get(`quarantine/${testArticleId}.html`);
+			expect(await quarantined?.text()).toBe(testContent);
+
+			const list = await app.fetch(
+				new Request('http://example.com/articles', { headers: { 'Authorization': `Bearer ${testApiSecret}` } }),
+				testEnv,
+			);
+			const listData = await list.json();
+			expect(listData.articles.map((article: { key: string }) => article.key)).not.toContain(`quarantine/${testArticleId}.html`);
+		});
+
+		it('moves the raw snapshot and deletes versions', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			await app.fetch(
+				new Request(`http://example.com/articles/${testArticleId}/raw`, {
+					method: 'PUT',
+					headers: {
+						'Content-Type': 'application/json',
+						'Authorization': `Bearer ${testApiSecret}`,
+					},
+					body: JSON.stringify({ content: testContent }),
+				}),
+				testEnv,
+			);
+
+			const response = await app.fetch(
+				new Request('http://example.com/articles/batch-quarantine', {
+					method: 'POST',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+					body: JSON.stringify({ ids: [testArticleId] }),
+				}),
+				testEnv,
+			);
+			expect(response.status).toBe(200);
+
+			expect(await env.articles_html.head(`raw/${testArticleId}.html.gz`)).toBeNull();
+			expect(await env.articles_html.head(`quarantine/raw/${testArticleId}.html.gz`)).not.toBeNull();
+			const versions = await env.articles_html.list({ prefix: `versions/${testArticleId}/` });
+			expect(versions.objects).toHaveLength(0);
+		});
+
+		it('returns 401 for invalid token', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-quarantine', {
+				method: 'POST',
+				headers: {
+					'Authorization': 'Bearer wrong-token',
+				},
+				body: JSON.stringify({ ids: [testArticleId] }),
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('GET /articles', () => {
+		beforeEach(async () => {
+			// Setup: Store three articles
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles/batch-put', {
+				method: 'POST',
+				headers: {
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: ['list-1', 'list-2', 'list-3'].map((id) => JSON.stringify({ id, content: testContent })).join('\n'),
+			});
+			await app.fetch(request, testEnv);
+		});
+
+		it('lists articles page by page with a cursor', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const headers = { 'Authorization': `Bearer ${testApiSecret}` };
+
+			const first = await app.fetch(new Request('http://example.com/articles?limit=2', { headers }), testEnv);
+			expect(first.status).toBe(200);
+			const firstPage = await first.json();
+			expect(firstPage.articles).toHaveLength(2);
+			expect(firstPage.truncated).toBe(true);
+			expect(firstPage.cursor).toBeTruthy();
+
+			const second = await app.fetch(
+				new Request(`http://example.com/articles?limit=2&cursor=${encodeURIComponent(firstPage.cursor)}`, { headers }),
+				testEnv,
+			);
+			const secondPage = await second.json();
+			expect(secondPage.truncated).toBe(false);
+			expect(secondPage.cursor).toBeNull();
+
+			const ids = [...firstPage.articles, ...secondPage.articles].map((article: { id: string }) => article.id);
+			expect(ids).toEqual(expect.arrayContaining(['list-1', 'list-2', 'list-3']));
+		});
+
+		it('returns 400 for an invalid limit', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request('http://example.com/articles?limit=0', {
+				headers: { 'Authorization': `Bearer ${testApiSecret}` },
+			});
+			const response = await app.fetch(request, testEnv);
+
+			expect(response.status).toBe(400);
+		});
+
+		it('returns 401 for missing Authorization header', async () => {
+			const response = await app.fetch(new Request('http://example.com/articles'), env);
+
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('Versioning', () => {
+		const putVersion = async (content: string) => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request(`http://example.com/articles/${testArticleId}`, {
+				method: 'PUT',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+				body: JSON.stringify({ content, pipelineVersion: 'test-1' }),
+			});
+			const response = await app.fetch(request, testEnv);
+			return (await response.json()).version as string;
+		};
+
+		it('keeps every put as a version and serves the latest as current', async () => {
+			const first = await putVersion('<p>v1</p>');
+			const second = await putVersion('<p>v2</p>');
+
+			const current = await app.fetch(new Request(`http://example.com/articles/${testArticleId}`), env);
+			expect(await current.text()).toBe('<p>v2</p>');
+			expect(current.headers.get('X-Article-Version')).toBe(second);
+
+			const response = await app.fetch(new Request(`http://example.com/articles/${testArticleId}/versions`), env);
+			expect(response.status).toBe(200);
+			const data = await response.json();
+			expect(data.current).toBe(second);
+			expect(data.versions.map((v: { version: string }) => v.version)).toEqual(expect.arrayContaining([first, second]));
+			expect(data.versions[0]).toMatchObject({ version: second, pipelineVersion: 'test-1' });
+			expect(data.versions[0].processedAt).toBeTruthy();
+
+			const old = await app.fetch(new Request(`http://example.com/articles/${testArticleId}/versions/${first}`), env);
+			expect(old.status).toBe(200);
+			expect(await old.text()).toBe('<p>v1</p>');
+		});
+
+		it('restores an older version as current', async () => {
+			const first = await putVersion('<p>v1</p>');
+			await putVersion('<p>v2</p>');
+
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const request = new Request(`http://example.com/articles/${testArticleId}/versions/${first}/restore`, {
+				method: 'POST',
+				headers: {
+					'Authorization': `Bearer ${testApiSecret}`,
+				},
+			});
+			const response = await app.fetch(request, testEnv);
+			expect(response.status).toBe(200);
+
+			const current = await app.fetch(new Request(`http://example.com/articles/${testArticleId}`), env);
+			expect(await current.text()).toBe('<p>v1</p>');
+			expect(current.headers.get('X-Article-Version')).toBe(first);
+		});
+
+		it('returns 404 for an unknown version', async () => {
+			await putVersion('<p>v1</p>');
+
+			const response = await app.fetch(new Request(`http://example.com/articles/${testArticleId}/versions/000000000000000-missing`), env);
+
+			expect(response.status).toBe(404);
+		});
+
+		it('deletes versions together with the article', async () => {
+			await putVersion('<p>v1</p>');
+
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			await app.fetch(
+				new Request(`http://example.com/articles/${testArticleId}`, {
+					method: 'DELETE',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+				}),
+				testEnv,
+			);
+
+			const response = await app.fetch(new Request(`http://example.com/articles/${testArticleId}/versions`), env);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('Raw snapshots', () => {
+		const rawHtml = '<html><head><script>tracking()</script></head><body><div class="ad">ad</div><p>Original</p></body></html>';
+
+		it('stores raw HTML compressed and returns it decompressed', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const putResponse = await app.fetch(
+				new Request(`http://example.com/articles/${testArticleId}/raw`, {
+					method: 'PUT',
+					headers: {
+						'Content-Type': 'application/json',
+						'Authorization': `Bearer ${testApiSecret}`,
+					},
+					body: JSON.stringify({ content: rawHtml, url: 'https://example.org/post/1' }),
+				}),
+				testEnv,
+			);
+			expect(putResponse.status).toBe(200);
+			const putData = await putResponse.json();
+			expect(putData).toMatchObject({ success: true, key: `raw/${testArticleId}.html.gz` });
+
+			const stored = await env.articles_html.get(`raw/${testArticleId}.html.gz`);
+			expect(stored?.httpMetadata?.contentEncoding).toBe('gzip');
+
+			const response = await app.fetch(
+				new Request(`http://example.com/articles/${testArticleId}/raw`, {
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+				}),
+				testEnv,
+			);
+			expect(response.status).toBe(200);
+			expect(response.headers.get('X-Source-Url')).toBe('https://example.org/post/1');
+			expect(await response.text()).toBe(rawHtml);
+		});
+
+		it('stores raw HTML sent with batch-put', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const putResponse = await app.fetch(
+				new Request('http://example.com/articles/batch-put', {
+					method: 'POST',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+					body: JSON.stringify({ id: 'raw-1', content: testContent, raw: rawHtml }),
+				}),
+				testEnv,
+			);
+			const putData = await putResponse.json();
+			expect(putData.results[0]).toMatchObject({ id: 'raw-1', success: true, rawStored: true });
+
+			const response = await app.fetch(
+				new Request('http://example.com/articles/raw-1/raw', {
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+				}),
+				testEnv,
+			);
+			expect(await response.text()).toBe(rawHtml);
+		});
+
+		it('returns 401 for missing Authorization header', async () => {
+			const response = await app.fetch(new Request(`http://example.com/articles/${testArticleId}/raw`), env);
+
+			expect(response.status).toBe(401);
+		});
+
+		it('returns 404 when no snapshot is stored', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const response = await app.fetch(
+				new Request('http://example.com/articles/999999/raw', {
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+				}),
+				testEnv,
+			);
+
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('Search', () => {
+		const putWithSearch = (lines: object[]) =>
+			app.fetch(
+				new Request('http://example.com/articles/batch-put', {
+					method: 'POST',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+					body: lines.map((line) => JSON.stringify(line)).join('\n'),
+				}),
+				{ ...env, API_SECRET: testApiSecret },
+			);
+		const search = async (params: string) => {
+			const response = await app.fetch(new Request(`http://example.com/search?${params}`), env);
+			return { status: response.status, data: await response.json() };
+		};
+
+		beforeEach(async () => {
+			const response = await putWithSearch([
+				{
+					id: 'search-1',
+					content: testContent,
+					url: 'https://example.org/news/1',
+					search: {
+						title: '新作ゲーム発表',
+						text: '東京都庁で新作ゲームの発表会が開かれた。',
+						siteId: 1,
+						category: 'game',
+						pubDate: '2025-10-01T09:00:00.000Z',
+					},
+				},
+				{
+					id: 'search-2',
+					content: testContent,
+					search: {
+						title: 'Weather report',
+						text: 'Rain in Tokyo today. 東京は雨。',
+						siteId: 2,
+						category: null,
+						pubDate: '2025-10-05T09:00:00.000Z',
+					},
+				},
+			]);
+			const data = await response.json();
+			expect(data.results.map((result: { indexed: boolean }) => result.indexed)).toEqual([true, true]);
+		});
+
+		it('finds Japanese text and highlights the match', async () => {
+			const { status, data } = await search('q=都庁');
+
+			expect(status).toBe(200);
+			expect(data.results).toHaveLength(1);
+			expect(data.results[0]).toMatchObject({ id: 'search-1', siteId: 1, url: 'https://example.org/news/1' });
+			expect(data.results[0].snippet).toContain('<mark>都庁</mark>');
+			expect(data.hasMore).toBe(false);
+		});
+
+		it('matches words case-insensitively and single characters', async () => {
+			expect((await search('q=TOKYO')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-2']);
+			expect((await search('q=雨')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-2']);
+		});
+
+		it('filters by site, category and date', async () => {
+			expect((await search('q=東京&site=2')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-2']);
+			expect((await search('q=東京&category=game')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-1']);
+			expect((await search('q=東京&from=2025-10-02')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-2']);
+			expect((await search('q=東京&to=2025-10-02')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-1']);
+		});
+
+		it('drops deleted articles from the results', async () => {
+			await app.fetch(
+				new Request('http://example.com/articles/batch-delete', {
+					method: 'POST',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+					body: JSON.stringify({ ids: ['search-1'] }),
+				}),
+				{ ...env, API_SECRET: testApiSecret },
+			);
+
+			expect((await search('q=東京&sort=date')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-2']);
+		});
+
+		it('drops quarantined articles from the results', async () => {
+			await app.fetch(
+				new Request('http://example.com/articles/batch-quarantine', {
+					method: 'POST',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+					body: JSON.stringify({ ids: ['search-1'] }),
+				}),
+				{ ...env, API_SECRET: testApiSecret },
+			);
+
+			expect((await search('q=東京&sort=date')).data.results.map((hit: { id: string }) => hit.id)).toEqual(['search-2']);
+		});
+
+		it('re-indexes the text of a restored version', async () => {
+			const testEnv = { ...env, API_SECRET: testApiSecret };
+			const put = await app.fetch(
+				new Request('http://example.com/articles/search-1', {
+					method: 'PUT',
+					headers: {
+						'Content-Type': 'application/json',
+						'Authorization': `Bearer ${testApiSecret}`,
+					},
+					body: JSON.stringify({ content: '<html><body><p>火星探査機の打ち上げ &amp; 成功</p></body></html>' }),
+				}),
+				testEnv,
+			);
+			const { version } = await put.json();
+
+			const restore = await app.fetch(
+				new Request(`http://example.com/articles/search-1/versions/${version}/restore`, {
+					method: 'POST',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+				}),
+				testEnv,
+			);
+			expect(restore.status).toBe(200);
+
+			const { data } = await search('q=火星');
+			expect(data.results).toHaveLength(1);
+			expect(data.results[0]).toMatchObject({ id: 'search-1', siteId: 1, category: 'game' });
+			expect(data.results[0].snippet).toContain('&amp; 成功');
+			expect((await search('q=都庁')).data.results).toHaveLength(0);
+		});
+
+		it('returns 400 without a query or with invalid filters', async () => {
+			expect((await search('')).status).toBe(400);
+			expect((await search('q=東京&limit=0')).status).toBe(400);
+			expect((await search('q=東京&from=yesterday')).status).toBe(400);
+		});
+
+		it('stores articles without indexing them when search is not enabled', async () => {
+			const noSearchEnv = { ...env, API_SECRET: testApiSecret, articles_search: undefined };
+			const put = await app.fetch(
+				new Request('http://example.com/articles/batch-put', {
+					method: 'POST',
+					headers: { 'Authorization': `Bearer ${testApiSecret}` },
+					body: JSON.stringify({
+						id: 'search-3',
+						content: testContent,
+						search: {
+							title: '火星探査',
+							text: '火星探査機が打ち上げられた。',
+							siteId: 3,
+							category: 'science',
+							pubDate: '2025-10-02T09:00:00.000Z',
+						},
+					}),
+				}),
+				noSearchEnv,
+			);
+			const data = await put.json();
+			expect(data.results[0]).toMatchObject({ id: 'search-3', success: true });
+			expect(data.results[0]).not.toHaveProperty('indexed');
+
+			const response = await app.fetch(new Request('http://example.com/search?q=火星'), noSearchEnv);
+			expect(response.status).toBe(503);
+			expect((await search('q=火星')).data.results).toHaveLength(0);
+		});
+	});
+
 	describe('404 handling', () => {
 		it('returns 404 for unknown routes', async () => {
 			const request = new Request('http://example.com/unknown', {
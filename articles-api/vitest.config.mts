@@ -4,7 +4,8 @@ export default defineWorkersConfig({
 	test: {
 		poolOptions: {
 			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+				// The search environment adds the D1 binding the search tests need
+				wrangler: { configPath: './wrangler.jsonc', environment: 'search' },
 			},
 		},
 	},
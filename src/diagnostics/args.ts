@@ -0,0 +1,57 @@
+/**
+ * Minimal argument parsing for the diagnostics CLI
+ * Supports positional arguments, `--name=value` options and `--flag` switches.
+ */
+
+export interface ParsedArgs {
+  positional: string[];
+  options: Map<string, string>;
+  flags: Set<string>;
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options = new Map<string, string>();
+  const flags = new Set<string>();
+
+  for (const arg of argv) {
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    if (separator === -1) {
+      flags.add(arg.slice(2));
+    } else {
+      options.set(arg.slice(2, separator), arg.slice(separator + 1));
+    }
+  }
+
+  return { positional, options, flags };
+}
+
+/**
+ * Read a required positional argument
+ */
+export function requirePositional(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positional[index];
+  if (!value) {
+    throw new Error(`Missing argument: <${name}>`);
+  }
+  return value;
+}
+
+/**
+ * Read an integer option
+ */
+export function intOption(args: ParsedArgs, name: string): number | undefined {
+  const value = args.options.get(name);
+  if (value === undefined) return undefined;
+
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`--${name} must be a number: ${value}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,79 @@
+/**
+ * Diagnostics CLI
+ *
+ * Usage:
+ *   tsx src/diagnostics/cli.ts <command> [args] [--json] [--verbose]
+ *
+ * Commands:
+ *   fetch <url> [--strategies=fetch,crawlee,browser] [--ua=mobile|pc]
+ *       Fetch a URL with each fetch strategy and compare the results
+ *   save-html <url> [--strategy=crawlee] [--out=file.html]
+ *   save-html --article=<id> [--out=file.html]
+ *       Save a page's raw HTML, or an article's stored raw snapshot, for use with `html`
+ *   html <file> --url=<page url> [--site=<id>] [--out=file.html]
+ *       Run the processArticleHtml pipeline on a saved HTML file
+ *   scrape --site=<id> | --due
+ *       Dry-run scrapeSite without writing to Supabase or R2
+ *   rss [--site=<id>] [--stale-days=14]
+ *       Health-check every site's RSS feed
+ *   schedule [--site=<id>]
+ *       Show each site's learned scrape interval and next expected run
+ *   runs [--last=10] [--all]
+ *       Compare the latest run report with earlier runs and flag regressions
+ *   search <query> [--site=<id>] [--category=<name>] [--from=<date>] [--to=<date>]
+ *          [--sort=relevance|date] [--limit=20]
+ *       Search article text through the worker's search index
+ *
+ * Results are printed as a table, or as JSON with --json. Logs are
+ * silenced unless --verbose is given, so JSON output can be piped.
+ */
+
+import { parseArgs, ParsedArgs } from './args.ts';
+import { printRows, Row } from './output.ts';
+import { runFetch } from './commands/fetch.ts';
+import { runHtml, runSaveHtml } from './commands/html.ts';
+import { runScrape } from './commands/scrape.ts';
+import { runRss } from './commands/rss.ts';
+import { runSchedule } from './commands/schedule.ts';
+import { runRuns } from './commands/runs.ts';
+import { runSearch } from './commands/search.ts';
+import { closeBrowserRenderer } from '../utils/smart-http-client.ts';
+import { logger } from '../utils/logger.ts';
+
+const COMMANDS: Record<string, (args: ParsedArgs) => Promise<Row[]>> = {
+  fetch: runFetch,
+  'save-html': runSaveHtml,
+  html: runHtml,
+  scrape: runScrape,
+  rss: runRss,
+  schedule: runSchedule,
+  runs: runRuns,
+  search: runSearch,
+};
+
+async function main(argv: string[]): Promise<void> {
+  const [commandName, ...rest] = argv;
+  const command = COMMANDS[commandName];
+  if (!command) {
+    throw new Error(
+      `Unknown command: ${commandName ?? '(none)'}. Available: ${Object.keys(COMMANDS).join(', ')}`
+    );
+  }
+
+  const args = parseArgs(rest);
+  if (!args.flags.has('verbose')) {
+    logger.level = 'silent';
+  }
+
+  try {
+    const rows = await command(args);
+    printRows(rows, args.flags.has('json') ? 'json' : 'table');
+  } finally {
+    await closeBrowserRenderer();
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
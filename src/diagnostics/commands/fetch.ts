@@ -0,0 +1,48 @@
+/**
+ * diag fetch: fetch one URL with every fetch strategy and compare
+ */
+
+import * as cheerio from 'cheerio';
+import { ParsedArgs, requirePositional } from '../args.ts';
+import { Row, truncate } from '../output.ts';
+import {
+  fetchHtmlWithStrategy,
+  FetchStrategy,
+  UserAgentType,
+} from '../../utils/smart-http-client.ts';
+import { extractPlainText } from '../../utils/fingerprint.ts';
+
+const ALL_STRATEGIES: FetchStrategy[] = ['fetch', 'crawlee', 'browser'];
+
+export async function runFetch(args: ParsedArgs): Promise<Row[]> {
+  const url = requirePositional(args, 0, 'url');
+  const userAgent = (args.options.get('ua') ?? 'mobile') as UserAgentType;
+  const strategies = (args.options.get('strategies')?.split(',') ??
+    ALL_STRATEGIES) as FetchStrategy[];
+
+  const rows: Row[] = [];
+  for (const strategy of strategies) {
+    const startedAt = Date.now();
+    let html: string | null = null;
+    let error: string | null = null;
+
+    try {
+      html = await fetchHtmlWithStrategy(url, strategy, userAgent);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    // Pages rendered by JS usually come back as a shell with little text
+    rows.push({
+      strategy,
+      ok: !!html,
+      ms: Date.now() - startedAt,
+      bytes: html?.length ?? 0,
+      textLength: html ? extractPlainText(html).length : 0,
+      title: html ? truncate(cheerio.load(html)('title').first().text().trim()) : '',
+      error: error ?? (html ? null : 'no content'),
+    });
+  }
+
+  return rows;
+}
@@ -0,0 +1,104 @@
+/**
+ * diag html: run the processArticleHtml pipeline on a saved HTML file
+ * diag save-html: fetch a page, or pull an article's raw snapshot, and save
+ * its raw HTML for `diag html`
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { ParsedArgs, intOption, requirePositional } from '../args.ts';
+import { Row } from '../output.ts';
+import { processArticleHtml, ProcessArticleOptions } from '../../services/html-processor.ts';
+import { getSiteProcessOptions } from '../../services/rss-scraper.ts';
+import { computeArticleFingerprint } from '../../services/duplicate-detector.ts';
+import { ArticlesApiClient, ConfigRepository, SiteRepository } from '../../repositories/index.ts';
+import { extractPlainText } from '../../utils/fingerprint.ts';
+import { smartFetchHtml, FetchStrategy } from '../../utils/smart-http-client.ts';
+
+export async function runHtml(args: ParsedArgs): Promise<Row[]> {
+  const file = requirePositional(args, 0, 'file');
+  const pageUrl = args.options.get('url');
+  if (!pageUrl) {
+    throw new Error('--url=<page URL> is required to resolve relative links');
+  }
+
+  const siteId = intOption(args, 'site');
+  const outFile = args.options.get('out') ?? file.replace(/(\.html?)?$/, '.processed.html');
+
+  let removeSelectors: string[] = [];
+  let allowedHosts = new Set<string>();
+  let options: ProcessArticleOptions = {};
+
+  // With --site, use the same selectors and options as a real scrape
+  if (siteId !== undefined) {
+    const configRepo = new ConfigRepository();
+    const site = await new SiteRepository().getById(siteId);
+    if (!site) {
+      throw new Error(`Site ${siteId} not found`);
+    }
+
+    const generalRemoveTags = await configRepo.getGeneralRemoveTags();
+    removeSelectors = [
+      ...new Set([...generalRemoveTags, ...(site.scrape_options?.remove_selector_tags ?? [])]),
+    ];
+    allowedHosts = await configRepo.getAllowedHosts();
+    options = getSiteProcessOptions(site);
+  }
+
+  const input = await readFile(file, 'utf-8');
+  const startedAt = Date.now();
+  const output = await processArticleHtml(input, pageUrl, removeSelectors, allowedHosts, options);
+  await writeFile(outFile, output);
+
+  return [
+    {
+      input: file,
+      output: outFile,
+      ms: Date.now() - startedAt,
+      inputBytes: input.length,
+      outputBytes: output.length,
+      textLength: extractPlainText(output).length,
+      fingerprint: computeArticleFingerprint(output),
+    },
+  ];
+}
+
+export async function runSaveHtml(args: ParsedArgs): Promise<Row[]> {
+  const articleId = intOption(args, 'article');
+  if (articleId !== undefined) {
+    return saveRawSnapshot(args, articleId);
+  }
+
+  const url = requirePositional(args, 0, 'url');
+  const strategy = (args.options.get('strategy') ?? 'crawlee') as FetchStrategy;
+  const outFile = args.options.get('out') ?? `${new URL(url).hostname}-${Date.now()}.html`;
+
+  const html = await smartFetchHtml(url, { strategy });
+  if (!html) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+
+  await writeFile(outFile, html);
+  return [{ url, strategy, output: outFile, bytes: html.length }];
+}
+
+/**
+ * Save an article's stored raw snapshot, so fixtures don't need the network
+ */
+async function saveRawSnapshot(args: ParsedArgs, articleId: number): Promise<Row[]> {
+  const snapshot = await new ArticlesApiClient().getRawSnapshot(articleId);
+  if (!snapshot) {
+    throw new Error(`No raw snapshot stored for article ${articleId}`);
+  }
+
+  const outFile = args.options.get('out') ?? `article-${articleId}.html`;
+  await writeFile(outFile, snapshot.html);
+  return [
+    {
+      articleId,
+      url: snapshot.sourceUrl,
+      fetchedAt: snapshot.fetchedAt,
+      output: outFile,
+      bytes: snapshot.html.length,
+    },
+  ];
+}
@@ -0,0 +1,70 @@
+/**
+ * diag rss: health-check every site's RSS feed
+ */
+
+import { ParsedArgs, intOption } from '../args.ts';
+import { Row, truncate } from '../output.ts';
+import { fetchRssFeed, getPublicationDate } from '../../services/rss-scraper.ts';
+import { SiteRepository } from '../../repositories/index.ts';
+import { Site } from '../../models/schemas.ts';
+import { Semaphore } from '../../utils/concurrency.ts';
+
+/**
+ * Feeds whose newest item is older than this are reported as stale
+ */
+const DEFAULT_STALE_DAYS = 14;
+
+const CONCURRENCY = 5;
+
+export async function runRss(args: ParsedArgs): Promise<Row[]> {
+  const siteId = intOption(args, 'site');
+  const staleDays = intOption(args, 'stale-days') ?? DEFAULT_STALE_DAYS;
+
+  const sites = (await new SiteRepository().getAll()).filter(
+    (site) => siteId === undefined || site.id === siteId
+  );
+
+  const semaphore = new Semaphore(CONCURRENCY);
+  return Promise.all(sites.map((site) => semaphore.execute(() => checkFeed(site, staleDays))));
+}
+
+async function checkFeed(site: Site, staleDays: number): Promise<Row> {
+  const row: Row = {
+    id: site.id,
+    title: truncate(site.title, 30),
+    status: 'error',
+    items: 0,
+    newest: null,
+    ageDays: null,
+    ms: 0,
+    error: null,
+  };
+
+  const startedAt = Date.now();
+  // No cache, so the feed body is always parsed
+  const result = await fetchRssFeed(site.rss);
+  row.ms = Date.now() - startedAt;
+
+  if (result.status === 'failed') {
+    row.error = truncate(
+      result.error instanceof Error ? result.error.message : String(result.error)
+    );
+    return row;
+  }
+  if (result.status !== 'ok') {
+    return row;
+  }
+
+  const items = result.feed.items ?? [];
+  const newest = items
+    .map((item) => getPublicationDate(item))
+    .sort()
+    .at(-1);
+
+  row.items = items.length;
+  row.newest = newest ?? null;
+  row.ageDays = newest ? Math.floor((Date.now() - Date.parse(newest)) / 86_400_000) : null;
+  row.status = items.length === 0 ? 'empty' : (row.ageDays ?? 0) > staleDays ? 'stale' : 'ok';
+
+  return row;
+}
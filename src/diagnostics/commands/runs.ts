@@ -0,0 +1,45 @@
+/**
+ * diag runs: compare the latest run report with the runs before it
+ *
+ * Lists sites that regressed in the latest run; --all lists every site of
+ * the run.
+ */
+
+import { ParsedArgs, intOption } from '../args.ts';
+import { Row, truncate } from '../output.ts';
+import { compareRuns, createRunReportStore } from '../../services/run-report.ts';
+
+const DEFAULT_RUNS = 10;
+
+export async function runRuns(args: ParsedArgs): Promise<Row[]> {
+  const last = intOption(args, 'last') ?? DEFAULT_RUNS;
+  if (last < 2) {
+    throw new Error('--last must be at least 2 to compare runs');
+  }
+
+  const reports = await createRunReportStore().getLatest(last);
+  if (reports.length === 0) {
+    throw new Error('No run reports found');
+  }
+
+  const comparisons = compareRuns(reports);
+  const showAll = args.flags.has('all');
+
+  return comparisons
+    .filter((c) => showAll || c.flags.length > 0)
+    .map((c) => ({
+      id: c.siteId,
+      title: truncate(c.title, 30),
+      status: c.latest.status,
+      ms: c.latest.duration_ms,
+      baselineMs: c.baselineDurationMs,
+      feedItems: c.latest.feed_unchanged ? 'unchanged' : c.latest.feed_items,
+      baselineItems: c.baselineFeedItems,
+      new: c.latest.new_articles,
+      filtered: c.latest.filtered_articles,
+      uploadFailed: c.latest.upload_failed,
+      error: c.latest.error_class,
+      flags: c.flags.join(',') || null,
+      runs: c.baselineRuns,
+    }));
+}
@@ -0,0 +1,68 @@
+/**
+ * diag schedule: show each site's learned interval and next expected run
+ */
+
+import { ParsedArgs, intOption } from '../args.ts';
+import { Row, truncate } from '../output.ts';
+import { SiteScheduler } from '../../services/scheduler.ts';
+import { nextAttemptAt } from '../../services/site-health.ts';
+import {
+  ArticleRepository,
+  SiteHealthRepository,
+  SiteRepository,
+} from '../../repositories/index.ts';
+
+export async function runSchedule(args: ParsedArgs): Promise<Row[]> {
+  const siteId = intOption(args, 'site');
+  const now = Date.now();
+
+  const scheduler = new SiteScheduler(new SiteRepository(), new ArticleRepository());
+  const schedules = (await scheduler.plan(now)).filter(
+    (s) => siteId === undefined || s.site.id === siteId
+  );
+
+  const healthRecords = await new SiteHealthRepository().getBySiteIds(
+    schedules.map((s) => s.site.id)
+  );
+  const healthBySite = new Map(healthRecords.map((h) => [h.site_id, h]));
+
+  return schedules
+    .map((schedule) => {
+      const health = healthBySite.get(schedule.site.id);
+      // A failing site waits for whichever is later: its schedule or its backoff
+      const nextRunAt = Math.max(
+        schedule.nextRunAt,
+        health ? nextAttemptAt(schedule.site, health) : 0
+      );
+
+      return {
+        id: schedule.site.id,
+        title: truncate(schedule.site.title, 30),
+        recent: schedule.recentArticles,
+        interval: formatDuration(schedule.intervalSeconds * 1000),
+        source: schedule.intervalSource,
+        lastAccess: schedule.site.last_access,
+        nextRun: health?.disabled_at ? 'disabled' : new Date(nextRunAt).toISOString(),
+        in: health?.disabled_at ? null : formatDuration(nextRunAt - now),
+        failures: health?.consecutive_failures ?? 0,
+        sortKey: health?.disabled_at ? Infinity : nextRunAt,
+      };
+    })
+    .sort((a, b) => a.sortKey - b.sortKey)
+    .map(({ sortKey: _sortKey, ...row }) => row);
+}
+
+/**
+ * Compact duration such as "2h30m" or "-15m" (overdue)
+ */
+function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  const minutes = Math.round(Math.abs(ms) / 60_000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+
+  if (days > 0) return `${sign}${days}d${hours}h`;
+  if (hours > 0) return `${sign}${hours}h${rest}m`;
+  return `${sign}${rest}m`;
+}
@@ -0,0 +1,88 @@
+/**
+ * diag scrape: dry-run scrapeSite without writing to Supabase or R2
+ *
+ * --site=ID lists the articles one site would insert; --due summarizes
+ * every site that is due for scraping.
+ */
+
+import { ParsedArgs, intOption } from '../args.ts';
+import { Row, truncate } from '../output.ts';
+import { scrapeSite } from '../../services/rss-scraper.ts';
+import {
+  ArticleRepository,
+  ConfigRepository,
+  SiteHealthRepository,
+  SiteRepository,
+} from '../../repositories/index.ts';
+import { SiteHealthTracker } from '../../services/site-health.ts';
+import { SiteScheduler } from '../../services/scheduler.ts';
+import { Site } from '../../models/schemas.ts';
+
+export async function runScrape(args: ParsedArgs): Promise<Row[]> {
+  const siteId = intOption(args, 'site');
+  const due = args.flags.has('due');
+  if (siteId === undefined && !due) {
+    throw new Error('Pass --site=<id> or --due');
+  }
+
+  const siteRepo = new SiteRepository();
+  const configRepo = new ConfigRepository();
+  const articleRepo = new ArticleRepository();
+
+  const [generalRemoveTags, allowedHosts] = await Promise.all([
+    configRepo.getGeneralRemoveTags(),
+    configRepo.getAllowedHosts(),
+  ]);
+
+  const dryRun = (site: Site) =>
+    scrapeSite(site, generalRemoveTags, allowedHosts, articleRepo, { dryRun: true });
+
+  if (siteId !== undefined) {
+    const site = await siteRepo.getById(siteId);
+    if (!site) {
+      throw new Error(`Site ${siteId} not found`);
+    }
+
+    const result = await dryRun(site);
+    return (result.articles ?? []).map((article) => ({
+      title: truncate(article.title, 40),
+      url: truncate(article.url, 70),
+      pubDate: article.pub_date ?? null,
+      bytes: article.content?.length ?? 0,
+      thumbnail: article.thumbnail_source ?? null,
+      fingerprint: article.fingerprint ?? null,
+    }));
+  }
+
+  const tracker = new SiteHealthTracker(new SiteHealthRepository());
+  const scheduler = new SiteScheduler(siteRepo, articleRepo);
+  const sites = await tracker.filterDue(await scheduler.getDueSites());
+
+  const rows: Row[] = [];
+  for (const site of sites.due) {
+    const startedAt = Date.now();
+    try {
+      const result = await dryRun(site);
+      rows.push({
+        id: site.id,
+        title: truncate(site.title, 30),
+        feedItems: result.totalArticles,
+        newArticles: result.articles?.length ?? 0,
+        filtered: result.filteredCount ?? 0,
+        ms: Date.now() - startedAt,
+        error: null,
+      });
+    } catch (error) {
+      rows.push({
+        id: site.id,
+        title: truncate(site.title, 30),
+        feedItems: 0,
+        newArticles: 0,
+        filtered: 0,
+        ms: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,36 @@
+/**
+ * diag search: query the worker's full-text search index
+ */
+
+import { ParsedArgs, intOption, requirePositional } from '../args.ts';
+import { Row, truncate } from '../output.ts';
+import { ArticlesApiClient } from '../../repositories/articles-api-client.ts';
+
+export async function runSearch(args: ParsedArgs): Promise<Row[]> {
+  const query = requirePositional(args, 0, 'query');
+  const sort = args.options.get('sort');
+  if (sort !== undefined && sort !== 'relevance' && sort !== 'date') {
+    throw new Error(`--sort must be relevance or date: ${sort}`);
+  }
+
+  const hits = await new ArticlesApiClient().searchArticles(query, {
+    siteId: intOption(args, 'site'),
+    category: args.options.get('category'),
+    from: args.options.get('from'),
+    to: args.options.get('to'),
+    sort,
+    limit: intOption(args, 'limit'),
+  });
+  if (!hits) {
+    throw new Error('Search request failed');
+  }
+
+  return hits.map((hit) => ({
+    id: hit.articleId,
+    site: hit.siteId,
+    pubDate: hit.pubDate,
+    title: truncate(hit.title, 30),
+    // Highlights as **match** so they stand out in a terminal
+    snippet: truncate(hit.snippet.replace(/<\/?mark>/g, '**'), 80),
+  }));
+}
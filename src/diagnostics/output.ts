@@ -0,0 +1,32 @@
+/**
+ * Output helpers for the diagnostics CLI
+ */
+
+export type OutputFormat = 'table' | 'json';
+
+export type Row = Record<string, string | number | boolean | null>;
+
+/**
+ * Print rows as a table or as JSON on stdout
+ */
+export function printRows(rows: Row[], format: OutputFormat): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.log('(no results)');
+    return;
+  }
+
+  console.table(rows);
+}
+
+/**
+ * Shorten long cell values so tables stay readable
+ */
+export function truncate(value: string | null | undefined, maxLength: number = 60): string {
+  if (!value) return '';
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
@@ -0,0 +1,31 @@
+/**
+ * Dry-run re-processing of a few articles with a diff (db:test-reprocess)
+ *
+ * Usage:
+ *   pnpm db:test-reprocess --ids=10,11
+ *   pnpm db:test-reprocess --site=3 --limit=5
+ *
+ * Accepts the same selection options as db:reprocess but never writes.
+ */
+
+import { reprocessArticles } from '../services/reprocess.ts';
+import { parseReprocessArgs } from './update_database.ts';
+import { logger } from '../utils/logger.ts';
+
+const DEFAULT_LIMIT = 5;
+
+Promise.resolve()
+  .then(() => {
+    const options = parseReprocessArgs(process.argv.slice(2));
+    return reprocessArticles({
+      ...options,
+      dryRun: true,
+      showDiff: true,
+      limit: options.limit ?? DEFAULT_LIMIT,
+      progressFile: undefined,
+    });
+  })
+  .catch((error) => {
+    logger.fatal({ err: error }, 'Test reprocess failed');
+    process.exit(1);
+  });
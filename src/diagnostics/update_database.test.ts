@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { appConfig } from '../utils/config.ts';
+import { parseReprocessArgs } from './update_database.ts';
+
+describe('parseReprocessArgs', () => {
+  it('reads the selection and options', () => {
+    const options = parseReprocessArgs([
+      '--site=1,2',
+      '--from=2025-10-01',
+      '--source=snapshot',
+      '--concurrency=3',
+      '--limit=50',
+      '--dry-run',
+      '--diff',
+    ]);
+
+    expect(options).toEqual({
+      filter: {
+        siteIds: [1, 2],
+        ids: undefined,
+        publishedFrom: '2025-10-01T00:00:00.000Z',
+        publishedTo: undefined,
+      },
+      concurrency: 3,
+      source: 'snapshot',
+      dryRun: true,
+      showDiff: true,
+      limit: 50,
+      progressFile: undefined,
+    });
+  });
+
+  it('uses the defaults for missing options', () => {
+    const options = parseReprocessArgs(['--ids=10']);
+
+    expect(options.concurrency).toBe(appConfig.scrapeConcurrency);
+    expect(options.source).toBe('auto');
+    expect(options.limit).toBeUndefined();
+  });
+
+  it('requires a selection', () => {
+    expect(() => parseReprocessArgs(['--dry-run'])).toThrow('Select articles');
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => parseReprocessArgs(['--ids=1,x'])).toThrow('Invalid ID list: 1,x');
+    expect(() => parseReprocessArgs(['--ids=1', '--from=someday'])).toThrow('Invalid date');
+    expect(() => parseReprocessArgs(['--ids=1', '--source=cache'])).toThrow('Invalid source');
+    expect(() => parseReprocessArgs(['--ids=1', '--concurrency=abc'])).toThrow(
+      '--concurrency must be a number: abc'
+    );
+    expect(() => parseReprocessArgs(['--ids=1', '--limit=abc'])).toThrow(
+      '--limit must be a number: abc'
+    );
+  });
+});
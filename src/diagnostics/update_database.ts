@@ -0,0 +1,110 @@
+/**
+ * Re-process existing articles with the current HTML pipeline (db:reprocess)
+ *
+ * Usage:
+ *   pnpm db:reprocess [selection] [options]
+ *
+ * Selection (combined with AND, at least one required):
+ *   --site=1,2          Articles of these site IDs
+ *   --ids=10,11         These article IDs
+ *   --from=2025-10-01   Published on or after this date
+ *   --to=2025-10-08     Published before this date
+ *
+ * Options:
+ *   --source=auto       Raw HTML from the stored snapshot (snapshot), the live page
+ *                       (fetch), or the snapshot when stored and the page otherwise
+ *                       (auto, default). snapshot never touches the network, so
+ *                       paginated articles fail with it
+ *   --dry-run           Compare with the stored content without writing
+ *   --diff              Print changed lines (dry run only)
+ *   --concurrency=N     Articles processed at once (default: SCRAPE_CONCURRENCY)
+ *   --limit=N           Process at most N articles
+ *   --progress=FILE     Record finished articles to FILE and skip them when re-run
+ */
+
+import { reprocessArticles, ReprocessOptions, ReprocessSource } from '../services/reprocess.ts';
+import { ArticleSourceFilter } from '../repositories/article-repository.ts';
+import { appConfig } from '../utils/config.ts';
+import { logger } from '../utils/logger.ts';
+
+function getArg(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function parseIdList(value: string | undefined): number[] | undefined {
+  if (!value) return undefined;
+
+  const ids = value.split(',').map((id) => parseInt(id.trim(), 10));
+  if (ids.some((id) => Number.isNaN(id))) {
+    throw new Error(`Invalid ID list: ${value}`);
+  }
+  return ids;
+}
+
+function parseDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+function parseInteger(name: string, value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`--${name} must be a number: ${value}`);
+  }
+  return parsed;
+}
+
+function parseSource(value: string | undefined): ReprocessSource {
+  if (!value) return 'auto';
+
+  if (value !== 'auto' && value !== 'snapshot' && value !== 'fetch') {
+    throw new Error(`Invalid source: ${value} (expected auto, snapshot or fetch)`);
+  }
+  return value;
+}
+
+export function parseReprocessArgs(argv: string[]): ReprocessOptions {
+  const filter: ArticleSourceFilter = {
+    siteIds: parseIdList(getArg(argv, 'site')),
+    ids: parseIdList(getArg(argv, 'ids')),
+    publishedFrom: parseDate(getArg(argv, 'from')),
+    publishedTo: parseDate(getArg(argv, 'to')),
+  };
+
+  if (!filter.siteIds && !filter.ids && !filter.publishedFrom && !filter.publishedTo) {
+    throw new Error('Select articles with --site, --ids, --from or --to');
+  }
+
+  return {
+    filter,
+    concurrency:
+      parseInteger('concurrency', getArg(argv, 'concurrency')) ?? appConfig.scrapeConcurrency,
+    source: parseSource(getArg(argv, 'source')),
+    dryRun: argv.includes('--dry-run'),
+    showDiff: argv.includes('--diff'),
+    limit: parseInteger('limit', getArg(argv, 'limit')),
+    progressFile: getArg(argv, 'progress'),
+  };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  Promise.resolve()
+    .then(() => reprocessArticles(parseReprocessArgs(process.argv.slice(2))))
+    .then((report) => {
+      if (report.results.some((r) => r.status === 'failed')) {
+        process.exitCode = 1;
+      }
+    })
+    .catch((error) => {
+      logger.fatal({ err: error }, 'Reprocess failed');
+      process.exit(1);
+    });
+}
@@ -4,10 +4,24 @@
 
 import { scrapeSite } from './services/rss-scraper.ts';
 import { maintainArticleLimit } from './services/article-maintenance.ts';
-import { ArticleRepository, ConfigRepository, SiteRepository } from './repositories/index.ts';
+import { DuplicateDetector } from './services/duplicate-detector.ts';
+import { UploadOutbox } from './services/upload-outbox.ts';
+import { SiteHealthTracker } from './services/site-health.ts';
+import { SiteScheduler } from './services/scheduler.ts';
+import { createRunReportStore, RunReportBuilder } from './services/run-report.ts';
+import { RunNotifier } from './services/notifier.ts';
+import {
+  ArticleRepository,
+  ArticlesApiClient,
+  ConfigRepository,
+  SiteHealthRepository,
+  SiteRepository,
+  UploadOutboxRepository,
+} from './repositories/index.ts';
 import { Site } from './models/schemas.ts';
 import { logError, logger, logInfo, logSuccess } from './utils/logger.ts';
 import { Semaphore } from './utils/concurrency.ts';
+import { closeBrowserRenderer } from './utils/smart-http-client.ts';
 import { appConfig } from './utils/config.ts';
 
 interface ScrapingContext {
@@ -20,8 +34,9 @@ interface ScrapingContext {
  * Prepare scraping context by loading necessary data from database
  */
 export async function prepare(
-  siteRepo: SiteRepository,
-  configRepo: ConfigRepository
+  scheduler: SiteScheduler,
+  configRepo: ConfigRepository,
+  siteHealth: SiteHealthTracker
 ): Promise<ScrapingContext | null> {
   logInfo('Preparing data for scraping...');
 
@@ -31,7 +46,8 @@ export async function prepare(
   const generalRemoveTags = await configRepo.getGeneralRemoveTags();
   logInfo(`Loaded ${generalRemoveTags.length} general remove tags.`);
 
-  const sitesToScrape = await siteRepo.getSitesToScrape();
+  // Failing sites are backed off and disabled ones skipped
+  const { due: sitesToScrape } = await siteHealth.filterDue(await scheduler.getDueSites());
   if (sitesToScrape.length === 0) {
     logInfo('No sites to scrape at this time.');
     return null;
@@ -46,28 +62,36 @@ export async function prepare(
 }
 
 /**
- * Scrape a single site and update its last access timestamp
+ * Scrape a single site, update its last access timestamp and record its health
  */
 async function scrapeSiteAndUpdateTimestamp(
   site: Site,
   generalTags: string[],
   allowedHosts: Set<string>,
   articleRepo: ArticleRepository,
-  siteRepo: SiteRepository
+  siteRepo: SiteRepository,
+  duplicateDetector: DuplicateDetector,
+  uploadOutbox: UploadOutbox,
+  siteHealth: SiteHealthTracker,
+  runReport: RunReportBuilder,
+  notifier: RunNotifier
 ): Promise<number> {
+  const startedAt = Date.now();
   try {
-    const { insertedCount, totalArticles } = await scrapeSite(
-      site,
-      generalTags,
-      allowedHosts,
-      articleRepo
-    );
+    const result = await scrapeSite(site, generalTags, allowedHosts, articleRepo, {
+      duplicateDetector,
+      uploadOutbox,
+    });
+    const { insertedCount, totalArticles, feedCache, feedUnchanged, filteredCount = 0 } = result;
 
     if (insertedCount >= 0) {
       logInfo(
-        `${site.id} ${site.title}: Inserted data(${insertedCount}) got articles(${totalArticles})`
+        `${site.id} ${site.title}: Inserted data(${insertedCount}) got articles(${totalArticles}) filtered(${filteredCount})`
       );
       await siteRepo.updateLastAccess(site.id);
+      if (feedCache) {
+        await siteRepo.updateFeedCache(site.id, feedCache);
+      }
       logSuccess(
         `Successfully scraped and updated timestamp for site ID: ${site.id} (${site.title})`
       );
@@ -75,9 +99,14 @@ async function scrapeSiteAndUpdateTimestamp(
       logInfo('No data to insert to table');
     }
 
+    await siteHealth.recordSuccess(site, feedUnchanged ? null : totalArticles);
+    runReport.recordSite(site, result, Date.now() - startedAt);
+    notifier.matchArticles(site, result.insertedArticles ?? []);
     return site.id;
   } catch (error) {
     logError(`Failed to process site ${site.id} (${site.title})`, error);
+    const disabled = await siteHealth.recordFailure(site, error);
+    runReport.recordSiteFailure(site, error, Date.now() - startedAt, disabled);
     throw error;
   }
 }
@@ -134,9 +163,20 @@ export async function run(): Promise<void> {
   const articleRepo = new ArticleRepository();
   const siteRepo = new SiteRepository();
   const configRepo = new ConfigRepository();
+  const uploadOutbox = new UploadOutbox(new UploadOutboxRepository(), articleRepo);
+  const siteHealth = new SiteHealthTracker(new SiteHealthRepository());
+  const scheduler = new SiteScheduler(siteRepo, articleRepo);
+  const runReport = new RunReportBuilder();
+  const notifier = new RunNotifier();
+  let fatalError: unknown;
 
   try {
-    const context = await prepare(siteRepo, configRepo);
+    // Retry uploads that failed in earlier runs before adding new ones
+    if (appConfig.articlesApiUrl && appConfig.articlesApiSecret) {
+      await uploadOutbox.drain(new ArticlesApiClient());
+    }
+
+    const context = await prepare(scheduler, configRepo, siteHealth);
     if (context === null) {
       return;
     }
@@ -147,12 +187,26 @@ export async function run(): Promise<void> {
       `Found ${sitesToScrape.length} sites to scrape. Processing with concurrency limit: ${appConfig.scrapeConcurrency}`
     );
 
+    // Shared across sites so syndicated copies are detected within the run
+    const duplicateDetector = new DuplicateDetector(articleRepo);
+
     // Process sites with concurrency limit
     const semaphore = new Semaphore(appConfig.scrapeConcurrency);
     const tasks = sitesToScrape.map((site) =>
       semaphore
         .execute(() =>
-          scrapeSiteAndUpdateTimestamp(site, generalRemoveTags, allowedHosts, articleRepo, siteRepo)
+          scrapeSiteAndUpdateTimestamp(
+            site,
+            generalRemoveTags,
+            allowedHosts,
+            articleRepo,
+            siteRepo,
+            duplicateDetector,
+            uploadOutbox,
+            siteHealth,
+            runReport,
+            notifier
+          )
         )
         .catch((error) => error)
     );
@@ -164,8 +218,13 @@ export async function run(): Promise<void> {
     await maintainArticleLimit();
   } catch (error) {
     logger.fatal({ err: error }, '❌ Fatal error in run');
+    fatalError = error;
     throw error;
   } finally {
+    const report = runReport.finish(fatalError);
+    await createRunReportStore().save(report);
+    await notifier.notifyRun(report);
+    await closeBrowserRenderer();
     logInfo('🔚 Scraping process finished.');
   }
 }
@@ -4,13 +4,95 @@
 
 import { z } from 'zod';
 
+/**
+ * Retention rules for a site's articles
+ */
+export const RetentionPolicySchema = z.object({
+  max_articles: z.number().int().positive().optional(),
+  max_age_days: z.number().int().positive().optional(),
+});
+
+export type RetentionPolicy = z.infer<typeof RetentionPolicySchema>;
+
+/**
+ * Declarative page formatting rule (applied after the built-in formatters)
+ * `index` picks the n-th match of `selector` instead of every match.
+ */
+const FormatRuleTargetSchema = z.object({
+  selector: z.string(),
+  index: z.number().int().min(0).optional(),
+});
+
+export const FormatRuleSchema = z.discriminatedUnion('op', [
+  FormatRuleTargetSchema.extend({ op: z.literal('move_before'), target: z.string() }),
+  FormatRuleTargetSchema.extend({ op: z.literal('unwrap') }),
+  FormatRuleTargetSchema.extend({ op: z.literal('remove') }),
+  FormatRuleTargetSchema.extend({ op: z.literal('rename_tag'), tag: z.string() }),
+  FormatRuleTargetSchema.extend({
+    op: z.literal('set_attr'),
+    attr: z.string(),
+    value: z.string().nullable(),
+  }),
+]);
+
+export type FormatRule = z.infer<typeof FormatRuleSchema>;
+
+/**
+ * Multi-page article settings
+ * Defaults: next link from rel="next", content from <body>, 10 pages.
+ */
+export const PaginationOptionsSchema = z.object({
+  next_selector: z.string().optional(),
+  content_selector: z.string().optional(),
+  max_pages: z.number().int().positive().optional(),
+});
+
+/**
+ * Politeness settings for requests to a site's host
+ * Defaults: 2 requests at once, 500ms between requests, robots.txt ignored.
+ */
+export const RateLimitOptionsSchema = z.object({
+  concurrency: z.number().int().positive().optional(),
+  min_delay_ms: z.number().int().min(0).optional(),
+  respect_robots_txt: z.boolean().optional(),
+});
+
+/**
+ * Rule deciding which feed items are scraped
+ * `pattern` is a case-insensitive substring, or a case-insensitive regular
+ * expression when `regex` is set. Rules on `body` are checked against the
+ * processed article text, so those items are fetched once.
+ */
+export const FeedFilterRuleSchema = z.object({
+  action: z.enum(['include', 'exclude']),
+  pattern: z.string().min(1),
+  regex: z.boolean().optional(),
+  fields: z
+    .array(z.enum(['title', 'url', 'category', 'author', 'body']))
+    .min(1)
+    .default(['title']),
+});
+
+export type FeedFilterRule = z.infer<typeof FeedFilterRuleSchema>;
+
 /**
  * Scrape options for site-specific configurations
  */
 export const ScrapeOptionsSchema = z.object({
   remove_selector_tags: z.array(z.string()),
   display_mode: z.enum(['in_app', 'direct_link']),
-  fetch_strategy: z.enum(['crawlee', 'fetch']).default('crawlee'),
+  fetch_strategy: z.enum(['crawlee', 'fetch', 'browser']).default('crawlee'),
+  fetch_timeout_ms: z.number().int().positive().optional(),
+  fetch_max_retries: z.number().int().positive().optional(),
+  retention: RetentionPolicySchema.optional(),
+  canonical_query_params: z.array(z.string()).optional(),
+  extraction_mode: z.enum(['full_page', 'readability', 'selector']).default('full_page'),
+  content_selector: z.string().optional(),
+  format_rules: z.array(FormatRuleSchema).optional(),
+  pagination: PaginationOptionsSchema.optional(),
+  rate_limit: RateLimitOptionsSchema.optional(),
+  // Combined with the global FEED_FILTER_RULES
+  filters: z.array(FeedFilterRuleSchema).optional(),
 });
 
 export type ScrapeOptions = z.infer<typeof ScrapeOptionsSchema>;
@@ -28,10 +110,32 @@ export const SiteSchema = z.object({
   last_access: z.string(),
   scrape_interval_seconds: z.number().nullable(),
   scrape_options: ScrapeOptionsSchema.nullable(),
+  feed_etag: z.string().nullable().optional(),
+  feed_last_modified: z.string().nullable().optional(),
+  feed_hash: z.string().nullable().optional(),
 });
 
 export type Site = z.infer<typeof SiteSchema>;
 
+/**
+ * Conditional GET state of a site's feed
+ */
+export interface FeedCache {
+  etag: string | null;
+  lastModified: string | null;
+  hash: string | null;
+}
+
+/**
+ * Availability of an article's HTML in R2
+ * - ok: stored (rows without a status are treated the same)
+ * - pending: upload failed and is queued for retry
+ * - failed: retries exhausted; the app should hide the article
+ */
+export const ContentStatusSchema = z.enum(['ok', 'pending', 'failed']);
+
+export type ContentStatus = z.infer<typeof ContentStatusSchema>;
+
 /**
  * Article model
  */
@@ -40,14 +144,115 @@ export const ArticleSchema = z.object({
   site_id: z.number(),
   title: z.string(),
   url: z.string().url(),
+  // Canonicalized feed link; differs from url when the page declares
+  // another rel=canonical
+  source_url: z.string().nullable().optional(),
   content: z.string(),
   pub_date: z.string(),
   thumbnail: z.string().default(''),
+  thumbnail_source: z.string().nullable().optional(),
+  fingerprint: z.string().nullable().optional(),
+  content_status: ContentStatusSchema.nullable().optional(),
   created_at: z.string().optional(),
 });
 
 export type Article = z.infer<typeof ArticleSchema>;
 
+/**
+ * Queued R2 upload that failed and will be retried
+ */
+export const UploadOutboxEntrySchema = z.object({
+  id: z.number(),
+  article_id: z.number(),
+  content: z.string(),
+  // Replayed with the content so the retry also archives and indexes it
+  raw_html: z.string().nullable().optional(),
+  source_url: z.string().nullable().optional(),
+  search: z
+    .object({
+      title: z.string(),
+      text: z.string(),
+      siteId: z.number(),
+      category: z.string().nullable(),
+      pubDate: z.string(),
+    })
+    .nullable()
+    .optional(),
+  attempts: z.number().int(),
+  next_attempt_at: z.string(),
+  last_error: z.string().nullable(),
+  created_at: z.string().optional(),
+});
+
+export type UploadOutboxEntry = z.infer<typeof UploadOutboxEntrySchema>;
+
+/**
+ * Coarse cause of a failed site scrape
+ */
+export const SiteErrorClassSchema = z.enum(['timeout', 'http', 'network', 'parse', 'unknown']);
+
+export type SiteErrorClass = z.infer<typeof SiteErrorClassSchema>;
+
+/**
+ * Scrape health of a site
+ * `disabled_at` is set once consecutive failures reach the threshold; clear
+ * it (and `consecutive_failures`) to re-enable the site.
+ */
+export const SiteHealthSchema = z.object({
+  site_id: z.number(),
+  consecutive_failures: z.number().int(),
+  last_error_class: SiteErrorClassSchema.nullable(),
+  last_error_message: z.string().nullable(),
+  last_success_at: z.string().nullable(),
+  last_failure_at: z.string().nullable(),
+  avg_items_per_fetch: z.number().nullable(),
+  fetch_count: z.number().int(),
+  disabled_at: z.string().nullable(),
+});
+
+export type SiteHealth = z.infer<typeof SiteHealthSchema>;
+
+/**
+ * Outcome of one site in a scrape run
+ */
+export const SiteRunReportSchema = z.object({
+  site_id: z.number(),
+  title: z.string(),
+  status: z.enum(['ok', 'failed']),
+  duration_ms: z.number(),
+  feed_items: z.number().int(),
+  // The feed was not re-read (304 or identical body), so feed_items is 0
+  feed_unchanged: z.boolean(),
+  new_articles: z.number().int(),
+  failed_articles: z.number().int(),
+  // New feed items skipped by filter rules
+  filtered_articles: z.number().int().default(0),
+  uploaded: z.number().int(),
+  upload_failed: z.number().int(),
+  // Articles fetched with each fetch strategy
+  fetch_strategies: z.record(z.string(), z.number()),
+  error_class: SiteErrorClassSchema.nullable(),
+  error: z.string().nullable(),
+  // This run's failure disabled the site
+  auto_disabled: z.boolean().default(false),
+});
+
+export type SiteRunReport = z.infer<typeof SiteRunReportSchema>;
+
+/**
+ * Structured summary of a scrape run
+ */
+export const RunReportSchema = z.object({
+  started_at: z.string(),
+  finished_at: z.string(),
+  duration_ms: z.number(),
+  // Set when the run aborted
+  fatal_error: z.string().nullable(),
+  sites: z.array(SiteRunReportSchema),
+});
+
+export type RunReport = z.infer<typeof RunReportSchema>;
+
 /**
  * Category model
  */
@@ -57,6 +262,7 @@ export const CategorySchema = z.object({
   visible: z.boolean(),
   super_category_id: z.number(),
   user_id: z.string().nullable(),
+  max_articles: z.number().int().positive().nullable().optional(),
 });
 
 export type Category = z.infer<typeof CategorySchema>;
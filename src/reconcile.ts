@@ -0,0 +1,31 @@
+/**
+ * Entry point for Supabase/R2 reconciliation
+ *
+ * Usage:
+ *   pnpm reconcile [--dry-run] [--delete-orphans] [--max-refetch=N]
+ *
+ * Orphan objects are quarantined unless --delete-orphans is given.
+ */
+
+import { reconcileArticleContent } from './services/reconciliation.ts';
+import { intOption, parseArgs } from './diagnostics/args.ts';
+import { logger } from './utils/logger.ts';
+
+function parseReconcileArgs(argv: string[]) {
+  const args = parseArgs(argv);
+
+  return {
+    dryRun: args.flags.has('dry-run'),
+    orphanAction: args.flags.has('delete-orphans') ? ('delete' as const) : ('quarantine' as const),
+    maxRefetch: intOption(args, 'max-refetch'),
+  };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  Promise.resolve()
+    .then(() => reconcileArticleContent(parseReconcileArgs(process.argv.slice(2))))
+    .catch((error) => {
+      logger.fatal({ err: error }, 'Reconciliation failed');
+      process.exit(1);
+    });
+}
@@ -3,11 +3,46 @@
  */
 
 import { BaseRepository } from './base-repository.ts';
-import { Article, ArticleSchema } from '../models/schemas.ts';
+import { Article, ArticleSchema, ContentStatus } from '../models/schemas.ts';
 import { appConfig } from '../utils/config.ts';
 import { logger, logError } from '../utils/logger.ts';
 import { z } from 'zod';
 
+/**
+ * Minimal article reference used by maintenance jobs
+ */
+export interface ArticleRef {
+  id: number;
+  site_id: number;
+}
+
+export interface ArticleFingerprint extends ArticleRef {
+  fingerprint: string;
+}
+
+export interface ArticlePublication {
+  site_id: number;
+  pub_date: string;
+}
+
+export interface ArticleSource extends ArticleRef {
+  url: string;
+  title: string;
+  pub_date: string;
+  created_at: string;
+}
+
+export interface ArticleSourceFilter {
+  siteIds?: number[];
+  ids?: number[];
+  // ISO dates; `publishedTo` is exclusive
+  publishedFrom?: string;
+  publishedTo?: string;
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
 export class ArticleRepository extends BaseRepository {
   constructor() {
     super(appConfig.articleTable);
@@ -31,19 +66,20 @@ export class ArticleRepository extends BaseRepository {
   }
 
   /**
-   * Update article content
+   * Update the columns derived from an article's processed content
+   * The content itself lives in R2 (see ArticlesApiClient).
    */
-  async updateContent(articleId: number, newContent: string): Promise<boolean> {
+  async updateProcessedFields(
+    articleId: number,
+    fields: Pick<Article, 'fingerprint' | 'content_status'>
+  ): Promise<boolean> {
     try {
-      const { error } = await this.client
-        .from(this.tableName)
-        .update({ content: newContent })
-        .eq('id', articleId);
+      const { error } = await this.client.from(this.tableName).update(fields).eq('id', articleId);
 
       if (error) throw error;
       return true;
     } catch (error) {
-      logError(`Failed to update content for article ${articleId}`, error);
+      logError(`Failed to update processed fields for article ${articleId}`, error);
       return false;
     }
   }
@@ -91,30 +127,100 @@ export class ArticleRepository extends BaseRepository {
   }
 
   /**
-   * Fetch oldest article IDs excluding specified IDs
+   * Fetch IDs of the oldest articles, bookmarked ones excluded
    */
-  async fetchOldestIds(limit: number, excludeIds: Set<number> = new Set()): Promise<number[]> {
+  async fetchOldestIds(limit: number): Promise<number[]> {
     try {
-      let query = this.client
-        .from(this.tableName)
-        .select('id')
-        .order('created_at', { ascending: true })
-        .limit(limit);
+      const refs = await this.fetchPaged(limit, (from, to) =>
+        this.selectUnbookmarked('id, site_id')
+          .order('created_at', { ascending: true })
+          .range(from, to)
+      );
+      return refs.map((ref) => ref.id);
+    } catch (error) {
+      logError('Failed to fetch oldest article IDs', error);
+      return [];
+    }
+  }
 
-      if (excludeIds.size > 0) {
-        query = query.not('id', 'in', `(${Array.from(excludeIds).join(',')})`);
-      }
+  /**
+   * Fetch article IDs newest first, bookmarked ones excluded, optionally
+   * restricted to a set of sites
+   */
+  async fetchNewestIds(limit: number, siteIds: number[] | null = null): Promise<ArticleRef[]> {
+    try {
+      return await this.fetchPaged(limit, (from, to) => {
+        let query = this.selectUnbookmarked('id, site_id');
+        if (siteIds) {
+          query = query.in('site_id', siteIds);
+        }
+        return query.order('created_at', { ascending: false }).range(from, to);
+      });
+    } catch (error) {
+      logError('Failed to fetch newest article IDs', error);
+      return [];
+    }
+  }
 
-      const { data, error } = await query;
+  /**
+   * Fetch IDs of a site's articles published before the given date,
+   * bookmarked ones excluded
+   */
+  async fetchIdsPublishedBefore(
+    siteId: number,
+    cutoffIso: string,
+    limit: number
+  ): Promise<ArticleRef[]> {
+    try {
+      return await this.fetchPaged(limit, (from, to) =>
+        this.selectUnbookmarked('id, site_id')
+          .eq('site_id', siteId)
+          .lt('pub_date', cutoffIso)
+          .order('pub_date', { ascending: true })
+          .range(from, to)
+      );
+    } catch (error) {
+      logError(`Failed to fetch articles older than ${cutoffIso} for site ${siteId}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Select articles that have no bookmark
+   * The bookmark table is embedded through its foreign key to articles and
+   * filtered to rows without a match, so the join happens in the database.
+   */
+  private selectUnbookmarked(columns: string) {
+    const bookmarks = appConfig.bookmarkTable;
+    return this.client
+      .from(this.tableName)
+      .select(`${columns}, ${bookmarks}(article_id)`)
+      .is(bookmarks, null);
+  }
+
+  /**
+   * Read up to `limit` article refs a page at a time
+   */
+  private async fetchPaged(
+    limit: number,
+    fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+  ): Promise<ArticleRef[]> {
+    const refs: ArticleRef[] = [];
+    while (refs.length < limit) {
+      const from = refs.length;
+      const to = Math.min(limit, from + PAGE_SIZE) - 1;
+      const { data, error } = await fetchPage(from, to);
 
       if (error) throw error;
-      if (!data) return [];
+      if (!data || data.length === 0) break;
 
-      return data.map((item) => item.id);
-    } catch (error) {
-      logError('Failed to fetch oldest article IDs', error);
-      return [];
+      // Drop the embedded bookmark column
+      for (const row of data as ArticleRef[]) {
+        refs.push({ id: row.id, site_id: row.site_id });
+      }
+      if (data.length < to - from + 1) break;
     }
+    return refs;
   }
 
   /**
@@ -215,6 +321,198 @@ export class ArticleRepository extends BaseRepository {
     }
   }
 
+  /**
+   * Check which feed links were already stored as an article's source URL
+   * Returns a Set of the given URLs that exist
+   */
+  async checkExistingSourceUrls(urls: string[]): Promise<Set<string>> {
+    if (urls.length === 0) return new Set();
+
+    try {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('source_url')
+        .in('source_url', urls);
+
+      if (error) throw error;
+      if (!data) return new Set();
+
+      return new Set(data.map((row) => row.source_url));
+    } catch (error) {
+      logError(`Failed to batch check existing source URLs (${urls.length} URLs)`, error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Get which of the given article IDs still exist
+   * @returns null on failure, so callers can tell it apart from "none exist"
+   */
+  async findExistingIds(ids: number[]): Promise<Set<number> | null> {
+    const existing = new Set<number>();
+
+    try {
+      for (let i = 0; i < ids.length; i += appConfig.batchSize) {
+        const batch = ids.slice(i, i + appConfig.batchSize);
+
+        const { data, error } = await this.client.from(this.tableName).select('id').in('id', batch);
+
+        if (error) throw error;
+        data?.forEach((row) => existing.add(row.id));
+      }
+
+      return existing;
+    } catch (error) {
+      logError(`Failed to check existing article IDs (${ids.length} IDs)`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get publication dates of articles published since the given date
+   */
+  async getRecentPublications(sinceIso: string): Promise<ArticlePublication[]> {
+    const pageSize = 1000;
+    const results: ArticlePublication[] = [];
+
+    try {
+      for (let from = 0; ; from += pageSize) {
+        const { data, error } = await this.client
+          .from(this.tableName)
+          .select('site_id, pub_date')
+          .gte('pub_date', sinceIso)
+          .order('id', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        results.push(...data);
+        if (data.length < pageSize) break;
+      }
+
+      return results;
+    } catch (error) {
+      logError(`Failed to get article publication dates since ${sinceIso}`, error);
+      return results;
+    }
+  }
+
+  /**
+   * Get fingerprints of articles created since the given date
+   */
+  async getRecentFingerprints(sinceIso: string): Promise<ArticleFingerprint[]> {
+    const pageSize = 1000;
+    const results: ArticleFingerprint[] = [];
+
+    try {
+      for (let from = 0; ; from += pageSize) {
+        const { data, error } = await this.client
+          .from(this.tableName)
+          .select('id, site_id, fingerprint')
+          .gte('created_at', sinceIso)
+          .not('fingerprint', 'is', null)
+          .order('id', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        results.push(...data);
+        if (data.length < pageSize) break;
+      }
+
+      return results;
+    } catch (error) {
+      logError(`Failed to get article fingerprints since ${sinceIso}`, error);
+      return results;
+    }
+  }
+
+  /**
+   * Set the R2 content status of articles
+   */
+  async updateContentStatus(ids: number[], status: ContentStatus): Promise<void> {
+    if (ids.length === 0) return;
+
+    try {
+      const { error } = await this.client
+        .from(this.tableName)
+        .update({ content_status: status })
+        .in('id', ids);
+
+      if (error) throw error;
+    } catch (error) {
+      logError(`Failed to set content status '${status}' for articles: ${ids.join(', ')}`, error);
+    }
+  }
+
+  /**
+   * Find articles by site, publication date range and/or IDs
+   * All given filters must match.
+   */
+  async findSources(filter: ArticleSourceFilter): Promise<ArticleSource[]> {
+    const pageSize = 1000;
+    const results: ArticleSource[] = [];
+
+    try {
+      for (let from = 0; ; from += pageSize) {
+        let query = this.client
+          .from(this.tableName)
+          .select('id, site_id, url, title, pub_date, created_at');
+
+        if (filter.siteIds?.length) query = query.in('site_id', filter.siteIds);
+        if (filter.ids?.length) query = query.in('id', filter.ids);
+        if (filter.publishedFrom) query = query.gte('pub_date', filter.publishedFrom);
+        if (filter.publishedTo) query = query.lt('pub_date', filter.publishedTo);
+
+        const { data, error } = await query
+          .order('id', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        results.push(...data);
+        if (data.length < pageSize) break;
+      }
+
+      return results;
+    } catch (error) {
+      logError('Failed to find articles', error);
+      return results;
+    }
+  }
+
+  /**
+   * Get id, site and URL of every article
+   * Throws instead of returning a partial list, since callers compare it
+   * against R2 and would treat missing rows as orphans.
+   */
+  async getAllSources(): Promise<ArticleSource[]> {
+    const pageSize = 1000;
+    const results: ArticleSource[] = [];
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('id, site_id, url, title, pub_date, created_at')
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        logError('Failed to get article sources', error);
+        throw error;
+      }
+      if (!data || data.length === 0) break;
+
+      results.push(...data);
+      if (data.length < pageSize) break;
+    }
+
+    return results;
+  }
+
   /**
    * Get random articles by site ID
    */
@@ -4,12 +4,13 @@
  */
 
 import { logError, logInfo } from '../utils/logger.js';
-import { appConfig } from '../utils/config.js';
+import { appConfig, PIPELINE_VERSION } from '../utils/config.js';
 
 interface ArticlePutResponse {
   success: boolean;
   key: string;
   size: number;
+  version: string;
 }
 
 interface ErrorResponse {
@@ -17,6 +18,114 @@ interface ErrorResponse {
   message: string;
 }
 
+interface BatchResponse {
+  success: boolean;
+  results: Array<{ id: string; success: boolean; error?: string }>;
+}
+
+interface SearchResponse {
+  results: Array<Omit<SearchHit, 'articleId'> & { id: string }>;
+}
+
+interface ArticleListResponse {
+  articles: Array<{ id: string; key: string; size: number; uploaded: string }>;
+  cursor: string | null;
+  truncated: boolean;
+}
+
+export interface ArticleVersion {
+  version: string;
+  size: number;
+  uploaded: string;
+  pipelineVersion: string | null;
+  processedAt: string | null;
+}
+
+export interface ArticleVersions {
+  current: string | null;
+  // Newest first
+  versions: ArticleVersion[];
+}
+
+/**
+ * Plain text and metadata the worker indexes for full-text search
+ */
+export interface SearchDocument {
+  title: string;
+  text: string;
+  siteId: number;
+  category: string | null;
+  pubDate: string;
+}
+
+export interface ArticleContentItem {
+  articleId: number;
+  content: string;
+  // Raw fetched HTML, archived as a snapshot next to the processed content
+  rawHtml?: string;
+  sourceUrl?: string;
+  search?: SearchDocument;
+}
+
+export interface SearchFilters {
+  siteId?: number;
+  category?: string;
+  // ISO dates; `to` is exclusive
+  from?: string;
+  to?: string;
+  sort?: 'relevance' | 'date';
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchHit {
+  articleId: number;
+  siteId: number;
+  category: string | null;
+  title: string;
+  url: string | null;
+  pubDate: string;
+  // HTML-escaped excerpt with matches wrapped in <mark>
+  snippet: string;
+}
+
+export interface BatchItemResult {
+  articleId: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface RawSnapshot {
+  html: string;
+  sourceUrl: string | null;
+  fetchedAt: string | null;
+}
+
+export interface StoredArticle {
+  articleId: number;
+  size: number;
+  uploaded: string;
+}
+
+export interface ArticleListPage {
+  articles: StoredArticle[];
+  // null when there are no more pages
+  cursor: string | null;
+}
+
+/**
+ * Articles per batch-put request. Each article is a full HTML page, so keep
+ * requests well below the worker's body size limit.
+ */
+const PUT_CHUNK_SIZE = 25;
+
+/**
+ * Articles per batch-delete/batch-quarantine request. The worker also
+ * lists and deletes each article's versions, so keep chunks small enough
+ * to stay within its per-request R2 operation budget.
+ */
+const DELETE_CHUNK_SIZE = 100;
+
 export class ArticlesApiClient {
   private readonly baseUrl: string;
   private readonly apiSecret: string;
@@ -51,7 +160,7 @@ export class ArticlesApiClient {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${this.apiSecret}`,
         },
-        body: JSON.stringify({ content }),
+        body: JSON.stringify({ content, pipelineVersion: PIPELINE_VERSION }),
       });
 
       if (!response.ok) {
@@ -63,7 +172,9 @@ export class ArticlesApiClient {
       }
 
       const data: ArticlePutResponse = await response.json();
-      logInfo(`Saved article ${articleId} to R2: ${data.key} (${data.size} bytes)`);
+      logInfo(
+        `Saved article ${articleId} to R2: ${data.key} v${data.version} (${data.size} bytes)`
+      );
       return true;
     } catch (error) {
       logError(`Exception while saving article ${articleId} to R2`, error);
@@ -74,16 +185,21 @@ export class ArticlesApiClient {
   /**
    * Get article HTML content from R2 via articles-api
    * @param articleId The article ID
+   * @param version A stored version to fetch instead of the current content
    * @returns The HTML content or null if not found
    */
-  async getArticleContent(articleId: number): Promise<string | null> {
+  async getArticleContent(articleId: number, version?: string): Promise<string | null> {
+    const path = version
+      ? `/articles/${articleId}/versions/${encodeURIComponent(version)}`
+      : `/articles/${articleId}`;
+
     try {
-      const response = await fetch(`${this.baseUrl}/articles/${articleId}`, {
+      const response = await fetch(`${this.baseUrl}${path}`, {
         method: 'GET',
       });
 
       if (response.status === 404) {
-        logInfo(`Article ${articleId} not found in R2`);
+        logInfo(`Article ${articleId}${version ? ` version ${version}` : ''} not found in R2`);
         return null;
       }
 
@@ -102,6 +218,106 @@ export class ArticlesApiClient {
     }
   }
 
+  /**
+   * Get the raw HTML snapshot of an article
+   * @returns The snapshot, or null if none is stored or the request failed
+   */
+  async getRawSnapshot(articleId: number): Promise<RawSnapshot | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/articles/${articleId}/raw`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${this.apiSecret}`,
+        },
+      });
+
+      if (response.status === 404) {
+        logInfo(`Raw snapshot of article ${articleId} not found in R2`);
+        return null;
+      }
+
+      if (!response.ok) {
+        const errorData: ErrorResponse = await response.json();
+        logError(
+          `Failed to retrieve raw snapshot of article ${articleId}: ${errorData.error} - ${errorData.message}`
+        );
+        return null;
+      }
+
+      return {
+        html: await response.text(),
+        sourceUrl: response.headers.get('X-Source-Url') || null,
+        fetchedAt: response.headers.get('X-Fetched-At') || null,
+      };
+    } catch (error) {
+      logError(`Exception while retrieving raw snapshot of article ${articleId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List stored versions of an article
+   * @returns The versions, or null if the article is not found or the request failed
+   */
+  async getArticleVersions(articleId: number): Promise<ArticleVersions | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/articles/${articleId}/versions`, {
+        method: 'GET',
+      });
+
+      if (response.status === 404) {
+        logInfo(`Article ${articleId} not found in R2`);
+        return null;
+      }
+
+      if (!response.ok) {
+        const errorData: ErrorResponse = await response.json();
+        logError(
+          `Failed to list versions of article ${articleId}: ${errorData.error} - ${errorData.message}`
+        );
+        return null;
+      }
+
+      const data: ArticleVersions = await response.json();
+      return { current: data.current, versions: data.versions };
+    } catch (error) {
+      logError(`Exception while listing versions of article ${articleId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Make a stored version the current content of an article (rollback)
+   * @returns True if successful, false otherwise
+   */
+  async restoreArticleVersion(articleId: number, version: string): Promise<boolean> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/articles/${articleId}/versions/${encodeURIComponent(version)}/restore`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${this.apiSecret}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const errorData: ErrorResponse = await response.json();
+        logError(
+          `Failed to restore article ${articleId} to version ${version}: ${errorData.error} - ${errorData.message}`
+        );
+        return false;
+      }
+
+      logInfo(`Restored article ${articleId} to version ${version}`);
+      return true;
+    } catch (error) {
+      logError(`Exception while restoring article ${articleId} to version ${version}`, error);
+      return false;
+    }
+  }
+
   /**
    * Delete article HTML content from R2 via articles-api
    * @param articleId The article ID
@@ -137,6 +353,216 @@ export class ArticlesApiClient {
     }
   }
 
+  /**
+   * Save many article contents using batch-put
+   * A failed request marks every article in its chunk as failed.
+   * @returns One result per item, in input order
+   */
+  async saveArticleContents(
+    items: ArticleContentItem[],
+    chunkSize: number = PUT_CHUNK_SIZE
+  ): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = [];
+
+    for (let i = 0; i < items.length; i += chunkSize) {
+      const chunk = items.slice(i, i + chunkSize);
+      const body = chunk
+        .map(({ articleId, content, rawHtml, sourceUrl, search }) =>
+          JSON.stringify({
+            id: articleId,
+            content,
+            pipelineVersion: PIPELINE_VERSION,
+            raw: rawHtml,
+            url: sourceUrl,
+            search,
+          })
+        )
+        .join('\n');
+
+      results.push(
+        ...(await this.sendBatch(
+          '/articles/batch-put',
+          'application/x-ndjson',
+          body,
+          chunk.map((item) => item.articleId)
+        ))
+      );
+    }
+
+    const successCount = results.filter((r) => r.success).length;
+    logInfo(`Saved ${successCount}/${items.length} articles to R2 via batch-put`);
+    return results;
+  }
+
+  /**
+   * Delete many article contents using batch-delete
+   * Deleting an article that does not exist counts as success.
+   * @returns One result per ID, in input order
+   */
+  async deleteArticleContents(
+    articleIds: number[],
+    chunkSize: number = DELETE_CHUNK_SIZE
+  ): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = [];
+
+    for (let i = 0; i < articleIds.length; i += chunkSize) {
+      const chunk = articleIds.slice(i, i + chunkSize);
+      results.push(
+        ...(await this.sendBatch(
+          '/articles/batch-delete',
+          'application/json',
+          JSON.stringify({ ids: chunk.map(String) }),
+          chunk
+        ))
+      );
+    }
+
+    const successCount = results.filter((r) => r.success).length;
+    logInfo(`Deleted ${successCount}/${articleIds.length} articles from R2 via batch-delete`);
+    return results;
+  }
+
+  /**
+   * Move many article contents under quarantine/ instead of deleting them
+   * @returns One result per ID, in input order
+   */
+  async quarantineArticleContents(
+    articleIds: number[],
+    chunkSize: number = DELETE_CHUNK_SIZE
+  ): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = [];
+
+    for (let i = 0; i < articleIds.length; i += chunkSize) {
+      const chunk = articleIds.slice(i, i + chunkSize);
+      results.push(
+        ...(await this.sendBatch(
+          '/articles/batch-quarantine',
+          'application/json',
+          JSON.stringify({ ids: chunk.map(String) }),
+          chunk
+        ))
+      );
+    }
+
+    const successCount = results.filter((r) => r.success).length;
+    logInfo(`Quarantined ${successCount}/${articleIds.length} articles in R2`);
+    return results;
+  }
+
+  /**
+   * POST one batch and map the response to per-article results
+   */
+  private async sendBatch(
+    path: string,
+    contentType: string,
+    body: string,
+    articleIds: number[]
+  ): Promise<BatchItemResult[]> {
+    const failAll = (error: string) =>
+      articleIds.map((articleId) => ({ articleId, success: false, error }));
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': contentType,
+          Authorization: `Bearer ${this.apiSecret}`,
+        },
+        body,
+      });
+
+      if (!response.ok) {
+        const errorData: ErrorResponse = await response.json();
+        logError(
+          `${path} failed for ${articleIds.length} articles: ${errorData.error} - ${errorData.message}`
+        );
+        return failAll(`${errorData.error} - ${errorData.message}`);
+      }
+
+      const data: BatchResponse = await response.json();
+      const resultsById = new Map(data.results.map((r) => [r.id, r]));
+
+      return articleIds.map((articleId) => {
+        const result = resultsById.get(String(articleId));
+        return result
+          ? { articleId, success: result.success, error: result.error }
+          : { articleId, success: false, error: 'Missing from batch response' };
+      });
+    } catch (error) {
+      logError(`Exception while calling ${path} for ${articleIds.length} articles`, error);
+      return failAll(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * List one page of stored articles
+   * @param cursor Cursor from the previous page, or null for the first page
+   * @returns The page, or null if the request failed
+   */
+  async listArticles(cursor: string | null = null): Promise<ArticleListPage | null> {
+    try {
+      const url = new URL(`${this.baseUrl}/articles`);
+      if (cursor) url.searchParams.set('cursor', cursor);
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${this.apiSecret}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData: ErrorResponse = await response.json();
+        logError(`Failed to list articles in R2: ${errorData.error} - ${errorData.message}`);
+        return null;
+      }
+
+      const data: ArticleListResponse = await response.json();
+      return {
+        // Skip keys that are not numeric article IDs
+        articles: data.articles
+          .map((a) => ({ articleId: Number(a.id), size: a.size, uploaded: a.uploaded }))
+          .filter((a) => Number.isInteger(a.articleId)),
+        cursor: data.truncated ? data.cursor : null,
+      };
+    } catch (error) {
+      logError('Exception while listing articles in R2', error);
+      return null;
+    }
+  }
+
+  /**
+   * Search indexed article text
+   * @returns The hits, or null if the request failed
+   */
+  async searchArticles(query: string, filters: SearchFilters = {}): Promise<SearchHit[] | null> {
+    try {
+      const url = new URL(`${this.baseUrl}/search`);
+      url.searchParams.set('q', query);
+      if (filters.siteId !== undefined) url.searchParams.set('site', String(filters.siteId));
+      if (filters.category) url.searchParams.set('category', filters.category);
+      if (filters.from) url.searchParams.set('from', filters.from);
+      if (filters.to) url.searchParams.set('to', filters.to);
+      if (filters.sort) url.searchParams.set('sort', filters.sort);
+      if (filters.limit !== undefined) url.searchParams.set('limit', String(filters.limit));
+      if (filters.offset !== undefined) url.searchParams.set('offset', String(filters.offset));
+
+      const response = await fetch(url, { method: 'GET' });
+
+      if (!response.ok) {
+        const errorData: ErrorResponse = await response.json();
+        logError(`Failed to search articles: ${errorData.error} - ${errorData.message}`);
+        return null;
+      }
+
+      const data: SearchResponse = await response.json();
+      return data.results.map(({ id, ...hit }) => ({ articleId: Number(id), ...hit }));
+    } catch (error) {
+      logError('Exception while searching articles', error);
+      return null;
+    }
+  }
+
   /**
    * Health check for articles-api
    * @returns True if the API is healthy, false otherwise
@@ -0,0 +1,45 @@
+/**
+ * Bookmark repository for database operations
+ */
+
+import { BaseRepository } from './base-repository.ts';
+import { appConfig } from '../utils/config.ts';
+import { logError } from '../utils/logger.ts';
+
+export class BookmarkRepository extends BaseRepository {
+  constructor() {
+    super(appConfig.bookmarkTable);
+  }
+
+  /**
+   * Get IDs of all bookmarked articles
+   * Throws on failure: callers use this to protect articles from deletion,
+   * so an empty or partial fallback would be unsafe.
+   */
+  async getBookmarkedArticleIds(): Promise<Set<number>> {
+    const pageSize = 1000;
+    const ids = new Set<number>();
+
+    try {
+      // Paged because PostgREST returns at most 1000 rows per request
+      for (let from = 0; ; from += pageSize) {
+        const { data, error } = await this.client
+          .from(this.tableName)
+          .select('article_id')
+          .order('article_id', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        data.forEach((row: { article_id: number }) => ids.add(row.article_id));
+        if (data.length < pageSize) break;
+      }
+
+      return ids;
+    } catch (error) {
+      logError('Failed to get bookmarked article IDs', error);
+      throw error;
+    }
+  }
+}
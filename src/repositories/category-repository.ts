@@ -0,0 +1,32 @@
+/**
+ * Category repository for database operations
+ */
+
+import { BaseRepository } from './base-repository.ts';
+import { Category, CategorySchema } from '../models/schemas.ts';
+import { appConfig } from '../utils/config.ts';
+import { logError } from '../utils/logger.ts';
+import { z } from 'zod';
+
+export class CategoryRepository extends BaseRepository {
+  constructor() {
+    super(appConfig.categoryTable);
+  }
+
+  /**
+   * Get all categories
+   */
+  async getAll(): Promise<Category[]> {
+    try {
+      const { data, error } = await this.client.from(this.tableName).select('*');
+
+      if (error) throw error;
+      if (!data) return [];
+
+      return z.array(CategorySchema).parse(data);
+    } catch (error) {
+      logError('Failed to get all categories', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Filtered item repository for feed links dropped by body filter rules
+ */
+
+import { BaseRepository } from './base-repository.ts';
+import { appConfig } from '../utils/config.ts';
+import { logError } from '../utils/logger.ts';
+
+export interface FilteredItem {
+  site_id: number;
+  url: string;
+  reason: string;
+}
+
+export class FilteredItemRepository extends BaseRepository {
+  constructor() {
+    super(appConfig.filteredItemTable);
+  }
+
+  /**
+   * Check which of a site's feed links were filtered out before
+   * Returns a Set of the given URLs that were
+   */
+  async findFilteredUrls(siteId: number, urls: string[]): Promise<Set<string>> {
+    if (urls.length === 0) return new Set();
+
+    try {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('url')
+        .eq('site_id', siteId)
+        .in('url', urls);
+
+      if (error) throw error;
+      if (!data) return new Set();
+
+      return new Set(data.map((row) => row.url));
+    } catch (error) {
+      logError(`Failed to check filtered items of site ${siteId}`, error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Remember filtered feed links
+   */
+  async saveMany(items: FilteredItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    try {
+      const { error } = await this.client
+        .from(this.tableName)
+        .upsert(items, { onConflict: 'site_id,url' });
+
+      if (error) throw error;
+    } catch (error) {
+      logError(`Failed to save ${items.length} filtered items`, error);
+    }
+  }
+}
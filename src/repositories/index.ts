@@ -6,5 +6,11 @@ export { BaseRepository } from './base-repository.js';
 export { ArticleRepository } from './article-repository.js';
 export { SiteRepository } from './site-repository.js';
 export { ConfigRepository } from './config-repository.js';
+export { BookmarkRepository } from './bookmark-repository.js';
+export { CategoryRepository } from './category-repository.js';
+export { UploadOutboxRepository } from './upload-outbox-repository.js';
+export { SiteHealthRepository } from './site-health-repository.js';
+export { FilteredItemRepository } from './filtered-item-repository.js';
+export { RunReportRepository } from './run-report-repository.js';
 export { ArticlesApiClient } from './articles-api-client.js';
 export { supabaseManager, getSupabaseClient } from './supabase-client.js';
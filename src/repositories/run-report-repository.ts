@@ -0,0 +1,52 @@
+/**
+ * Run report repository for persisted scrape run summaries
+ */
+
+import { BaseRepository } from './base-repository.ts';
+import { RunReport, RunReportSchema } from '../models/schemas.ts';
+import { appConfig } from '../utils/config.ts';
+import { logError } from '../utils/logger.ts';
+
+export class RunReportRepository extends BaseRepository {
+  constructor() {
+    super(appConfig.runReportTable);
+  }
+
+  /**
+   * Store a run report
+   */
+  async save(report: RunReport): Promise<void> {
+    try {
+      const { error } = await this.client.from(this.tableName).insert({
+        started_at: report.started_at,
+        finished_at: report.finished_at,
+        report,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      logError(`Failed to store run report of ${report.started_at}`, error);
+    }
+  }
+
+  /**
+   * Get the latest run reports, newest first
+   */
+  async getLatest(limit: number): Promise<RunReport[]> {
+    try {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('report')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      if (!data) return [];
+
+      return data.map((row) => RunReportSchema.parse(row.report));
+    } catch (error) {
+      logError('Failed to get run reports', error);
+      return [];
+    }
+  }
+}
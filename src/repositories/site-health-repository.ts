@@ -0,0 +1,53 @@
+/**
+ * Site health repository for per-site scrape outcomes
+ */
+
+import { BaseRepository } from './base-repository.ts';
+import { SiteHealth, SiteHealthSchema } from '../models/schemas.ts';
+import { appConfig } from '../utils/config.ts';
+import { logError } from '../utils/logger.ts';
+import { z } from 'zod';
+
+export class SiteHealthRepository extends BaseRepository {
+  constructor() {
+    super(appConfig.siteHealthTable);
+  }
+
+  /**
+   * Get health records of the given sites
+   * Sites without a record have never been scraped since tracking started.
+   */
+  async getBySiteIds(siteIds: number[]): Promise<SiteHealth[]> {
+    if (siteIds.length === 0) return [];
+
+    try {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('*')
+        .in('site_id', siteIds);
+
+      if (error) throw error;
+      if (!data) return [];
+
+      return z.array(SiteHealthSchema).parse(data);
+    } catch (error) {
+      logError('Failed to get site health records', error);
+      return [];
+    }
+  }
+
+  /**
+   * Insert or replace the health record of a site
+   */
+  async upsert(health: SiteHealth): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from(this.tableName)
+        .upsert(health, { onConflict: 'site_id' });
+
+      if (error) throw error;
+    } catch (error) {
+      logError(`Failed to update health of site ${health.site_id}`, error);
+    }
+  }
+}
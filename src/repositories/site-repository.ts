@@ -3,7 +3,7 @@
  */
 
 import { BaseRepository } from './base-repository.ts';
-import { Site, SiteSchema } from '../models/schemas.ts';
+import { FeedCache, Site, SiteSchema } from '../models/schemas.ts';
 import { appConfig } from '../utils/config.ts';
 import { logError, logger, logSuccess } from '../utils/logger.ts';
 import { z } from 'zod';
@@ -29,6 +29,26 @@ export class SiteRepository extends BaseRepository {
     }
   }
 
+  /**
+   * Store conditional GET state of a site's feed
+   */
+  async updateFeedCache(siteId: number, cache: FeedCache): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from(this.tableName)
+        .update({
+          feed_etag: cache.etag,
+          feed_last_modified: cache.lastModified,
+          feed_hash: cache.hash,
+        })
+        .eq('id', siteId);
+
+      if (error) throw error;
+    } catch (error) {
+      logError(`Failed to update feed cache for site ${siteId}`, error);
+    }
+  }
+
   /**
    * Get site by ID
    */
@@ -99,6 +119,10 @@ export class SiteRepository extends BaseRepository {
    */
   async getSitesToScrape(): Promise<Site[]> {
     try {
+      if (!appConfig.getSitesToScrapeRpc) {
+        throw new Error('GET_SITES_TO_SCRAPE_RPC is not configured');
+      }
+
       const { data, error } = await this.client.rpc(appConfig.getSitesToScrapeRpc);
 
       if (error) throw error;
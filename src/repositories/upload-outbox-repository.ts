@@ -0,0 +1,106 @@
+/**
+ * Upload outbox repository for failed R2 uploads awaiting retry
+ */
+
+import { BaseRepository } from './base-repository.ts';
+import { SearchDocument } from './articles-api-client.ts';
+import { UploadOutboxEntry, UploadOutboxEntrySchema } from '../models/schemas.ts';
+import { appConfig } from '../utils/config.ts';
+import { logError } from '../utils/logger.ts';
+import { z } from 'zod';
+
+export interface NewOutboxEntry {
+  article_id: number;
+  content: string;
+  raw_html: string | null;
+  source_url: string | null;
+  search: SearchDocument | null;
+  last_error: string | null;
+}
+
+export class UploadOutboxRepository extends BaseRepository {
+  constructor() {
+    super(appConfig.uploadOutboxTable);
+  }
+
+  /**
+   * Queue uploads for retry
+   * An article that is already queued keeps its attempt count and gets the
+   * latest content.
+   * @returns True if the entries were stored
+   */
+  async enqueue(entries: NewOutboxEntry[], nextAttemptAt: string): Promise<boolean> {
+    if (entries.length === 0) return true;
+
+    try {
+      const { error } = await this.client.from(this.tableName).upsert(
+        entries.map((entry) => ({ ...entry, next_attempt_at: nextAttemptAt })),
+        { onConflict: 'article_id' }
+      );
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      logError(`Failed to queue ${entries.length} uploads for retry`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get entries whose next attempt is due
+   */
+  async getDue(nowIso: string, limit: number): Promise<UploadOutboxEntry[]> {
+    try {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('*')
+        .lte('next_attempt_at', nowIso)
+        .order('next_attempt_at', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      if (!data) return [];
+
+      return z.array(UploadOutboxEntrySchema).parse(data);
+    } catch (error) {
+      logError('Failed to get due upload outbox entries', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a failed retry
+   */
+  async recordAttempt(
+    id: number,
+    attempts: number,
+    nextAttemptAt: string,
+    lastError: string | null
+  ): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from(this.tableName)
+        .update({ attempts, next_attempt_at: nextAttemptAt, last_error: lastError })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      logError(`Failed to record attempt for upload outbox entry ${id}`, error);
+    }
+  }
+
+  /**
+   * Remove entries that were uploaded or given up on
+   */
+  async removeByIds(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    try {
+      const { error } = await this.client.from(this.tableName).delete().in('id', ids);
+
+      if (error) throw error;
+    } catch (error) {
+      logError(`Failed to remove upload outbox entries: ${ids.join(', ')}`, error);
+    }
+  }
+}
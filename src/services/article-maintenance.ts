@@ -4,75 +4,137 @@
 
 import { ArticleRepository } from '../repositories/article-repository.js';
 import { ArticlesApiClient } from '../repositories/articles-api-client.js';
+import { BookmarkRepository } from '../repositories/bookmark-repository.js';
+import { CategoryRepository } from '../repositories/category-repository.js';
+import { SiteRepository } from '../repositories/site-repository.js';
+import { countByRule, planRetention, PruneDecision, RetentionRule } from './retention.js';
 import { appConfig } from '../utils/config.js';
 import { logger, logInfo, logWarn, logSuccess, logError } from '../utils/logger.js';
 
+export interface MaintainArticleLimitOptions {
+  dryRun?: boolean;
+}
+
 /**
- * Maintain article limit by removing oldest articles
+ * Summary of a pruning pass
+ */
+export interface PruneReport {
+  dryRun: boolean;
+  totalCount: number;
+  maxArticles: number;
+  bookmarkedCount: number;
+  deletions: PruneDecision[];
+  countsByRule: Record<RetentionRule, number>;
+  deletedFromSupabase: number;
+  deletedFromR2: number;
+}
+
+/**
+ * Maintain article limit by applying retention rules (see retention.ts)
  * Preserves bookmarked articles
  */
-export async function maintainArticleLimit(): Promise<void> {
-  logInfo('Starting to check and maintain article limit...');
+export async function maintainArticleLimit(
+  options: MaintainArticleLimitOptions = {}
+): Promise<PruneReport> {
+  const { dryRun = appConfig.pruneDryRun } = options;
+  logInfo(`Starting to check and maintain article limit...${dryRun ? ' (dry run)' : ''}`);
+
+  const report: PruneReport = {
+    dryRun,
+    totalCount: 0,
+    maxArticles: appConfig.maxArticles,
+    bookmarkedCount: 0,
+    deletions: [],
+    countsByRule: countByRule([]),
+    deletedFromSupabase: 0,
+    deletedFromR2: 0,
+  };
 
   try {
     const articleRepo = new ArticleRepository();
+    const bookmarkRepo = new BookmarkRepository();
+    const siteRepo = new SiteRepository();
+    const categoryRepo = new CategoryRepository();
 
-    const allCount = await articleRepo.getTotalCount();
-
-    if (allCount <= appConfig.maxArticles) {
-      logInfo('The number of articles is within the limit. No cleanup needed.');
-      return;
-    }
+    report.totalCount = await articleRepo.getTotalCount();
 
-    logInfo(`Article count (${allCount}) exceeds limit (${appConfig.maxArticles}).`);
+    const bookmarkedIds = await bookmarkRepo.getBookmarkedArticleIds();
+    report.bookmarkedCount = bookmarkedIds.size;
+    logInfo(`Excluding ${bookmarkedIds.size} bookmarked articles from cleanup.`);
 
-    const articlesToDeleteCount = allCount - appConfig.maxArticles;
+    const deletions = await planRetention(articleRepo, {
+      sites: await siteRepo.getAll(),
+      categories: await categoryRepo.getAll(),
+      protectedIds: bookmarkedIds,
+      totalCount: report.totalCount,
+      maxArticles: appConfig.maxArticles,
+    });
 
-    const staleArticleIds = await articleRepo.fetchOldestIds(articlesToDeleteCount);
+    // Filter again so a bookmarked ID can never reach the delete calls
+    report.deletions = deletions.filter((d) => !bookmarkedIds.has(d.articleId));
+    report.countsByRule = countByRule(report.deletions);
+    const staleArticleIds = report.deletions.map((d) => d.articleId);
 
     if (staleArticleIds.length === 0) {
-      logInfo('No un-bookmarked old articles found to delete.');
-      return;
+      logInfo('No articles matched a retention rule. No cleanup needed.');
+      return report;
     }
 
-    logInfo(`Found ${staleArticleIds.length} stale articles to delete.`);
+    logRetentionSummary(report.deletions, dryRun);
+
+    if (dryRun) {
+      return report;
+    }
 
     // Step 1: Delete from Supabase
     const deleteCount = await articleRepo.deleteByIds(staleArticleIds);
+    report.deletedFromSupabase = deleteCount;
 
     if (deleteCount > 0) {
       logSuccess(`Successfully deleted ${deleteCount} articles from Supabase.`);
     } else {
       logWarn(`Failed to delete article IDs from Supabase: ${staleArticleIds.join(', ')}`);
-      return;
+      return report;
     }
 
     // Step 2: Delete from R2 (if articles-api is configured)
     if (!appConfig.articlesApiUrl || !appConfig.articlesApiSecret) {
       logInfo('articles-api not configured, skipping R2 deletion');
-      return;
+      return report;
     }
 
     const articlesApiClient = new ArticlesApiClient();
     logInfo(`Deleting ${staleArticleIds.length} article contents from R2...`);
 
-    const r2DeletePromises = staleArticleIds.map((articleId) =>
-      articlesApiClient.deleteArticleContent(articleId)
-    );
-
-    const r2Results = await Promise.allSettled(r2DeletePromises);
-    const r2SuccessCount = r2Results.filter(
-      (r) => r.status === 'fulfilled' && r.value === true
-    ).length;
+    const r2Results = await articlesApiClient.deleteArticleContents(staleArticleIds);
+    const r2SuccessCount = r2Results.filter((r) => r.success).length;
+    report.deletedFromR2 = r2SuccessCount;
 
     logSuccess(`Successfully deleted ${r2SuccessCount}/${staleArticleIds.length} contents from R2.`);
 
     const r2FailedCount = staleArticleIds.length - r2SuccessCount;
     if (r2FailedCount > 0) {
-      logError(`${r2FailedCount} content deletions from R2 failed.`);
+      const failedIds = r2Results.filter((r) => !r.success).map((r) => r.articleId);
+      logError(`${r2FailedCount} content deletions from R2 failed: ${failedIds.join(', ')}`);
     }
+
+    return report;
   } catch (error) {
     logger.error({ err: error }, 'Error in maintain_article_limit');
     throw error;
   }
 }
+
+/**
+ * Log how many articles each retention rule selected
+ */
+function logRetentionSummary(deletions: PruneDecision[], dryRun: boolean): void {
+  logInfo(`${dryRun ? '[DRY RUN] Would delete' : 'Deleting'} ${deletions.length} stale articles.`);
+
+  Object.entries(countByRule(deletions)).forEach(([rule, count]) => {
+    if (count === 0) return;
+
+    const ids = deletions.filter((d) => d.rule === rule).map((d) => d.articleId);
+    logInfo(`  - ${rule}: ${count} articles${dryRun ? ` (${ids.join(', ')})` : ''}`);
+  });
+}
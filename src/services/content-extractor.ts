@@ -0,0 +1,193 @@
+/**
+ * Main-content extraction for processArticleHtml
+ *
+ * Modes:
+ * - full_page: keep the whole page (default)
+ * - selector: keep the first element matching a content root selector
+ * - readability: score block elements by text density and link ratio
+ *   and keep the best candidate
+ */
+
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { logDebug, logWarn } from '../utils/logger.js';
+
+export type ExtractionMode = 'full_page' | 'readability' | 'selector';
+
+export interface ExtractionOptions {
+  extractionMode?: ExtractionMode;
+  contentSelector?: string;
+}
+
+const POSITIVE_PATTERN = /article|body|content|entry|main|post|text|blog|story/i;
+const NEGATIVE_PATTERN =
+  /comment|footer|sidebar|sponsor|\bad[-_]|share|related|nav|menu|widget|banner|header|ranking|pickup/i;
+
+/**
+ * Paragraph-like elements shorter than this carry no score
+ */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * A candidate with less text than this is not trusted as the article body
+ */
+const MIN_CONTENT_LENGTH = 140;
+
+/**
+ * Replace <body> with the main content according to the extraction mode
+ * Falls back to the full page when nothing suitable is found.
+ */
+export function extractMainContent($: cheerio.CheerioAPI, options: ExtractionOptions): void {
+  const { extractionMode = 'full_page', contentSelector } = options;
+
+  if (extractionMode === 'full_page') {
+    return;
+  }
+
+  let root: cheerio.Cheerio<AnyNode> | null = null;
+
+  if (extractionMode === 'selector') {
+    if (!contentSelector) {
+      logWarn('extraction_mode "selector" requires content_selector, keeping full page');
+      return;
+    }
+    try {
+      const match = $(contentSelector).first();
+      root = match.length > 0 ? match : null;
+    } catch (error) {
+      logWarn(`Invalid content selector: ${contentSelector}`);
+    }
+  } else {
+    root = findReadabilityRoot($);
+  }
+
+  if (!root) {
+    logWarn(`No main content found (${extractionMode}), keeping full page`);
+    return;
+  }
+
+  // Appending <body> into itself would nest it; the page is already the content
+  if (root.is('html, body')) {
+    return;
+  }
+
+  const contentHtml = $.html(root);
+  $('body').empty().append(contentHtml);
+}
+
+/**
+ * Plain text of the readability candidate, or of the whole page when there
+ * is none
+ */
+export function extractMainText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript').remove();
+  const root = findReadabilityRoot($) ?? $('body');
+  return root.text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the element with the highest readability score
+ */
+function findReadabilityRoot($: cheerio.CheerioAPI): cheerio.Cheerio<Element> | null {
+  const scores = new Map<Element, number>();
+
+  const addScore = (node: AnyNode | null, score: number) => {
+    if (!node || node.type !== 'tag') return;
+    const element = node as Element;
+    // Paragraphs directly under <body> must not make the whole page a candidate
+    if (element.tagName === 'body' || element.tagName === 'html') return;
+    if (!scores.has(element)) {
+      scores.set(element, initialScore($, element));
+    }
+    scores.set(element, (scores.get(element) ?? 0) + score);
+  };
+
+  $('body')
+    .find('p, pre, td, div, blockquote')
+    .each((_, elem) => {
+      const $elem = $(elem);
+
+      // Only score divs that hold text directly rather than other blocks
+      if ($elem.is('div') && $elem.children('div, p, table, ul, ol, section, article').length > 0) {
+        return;
+      }
+
+      const text = $elem.text().trim();
+      if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+      // Commas and Japanese punctuation indicate running prose
+      const punctuation = (text.match(/[,、。]/g) ?? []).length;
+      const score = 1 + punctuation + Math.min(Math.floor(text.length / 100), 3);
+
+      addScore(elem.parent, score);
+      addScore(elem.parent?.parent ?? null, score / 2);
+    });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+
+  for (const [element, score] of scores) {
+    const finalScore = score * (1 - linkDensity($, element));
+    if (finalScore > bestScore) {
+      best = element;
+      bestScore = finalScore;
+    }
+  }
+
+  if (!best) return null;
+
+  const $best = $(best);
+  if ($best.text().trim().length < MIN_CONTENT_LENGTH) {
+    return null;
+  }
+
+  logDebug(`Readability picked <${best.tagName}> with score ${bestScore.toFixed(1)}`);
+  return $best;
+}
+
+/**
+ * Score from the tag name and class/id hints
+ */
+function initialScore($: cheerio.CheerioAPI, element: Element): number {
+  let score = 0;
+
+  switch (element.tagName) {
+    case 'article':
+    case 'main':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+      score += 5;
+      break;
+    case 'form':
+    case 'ul':
+    case 'ol':
+    case 'aside':
+    case 'nav':
+    case 'footer':
+      score -= 5;
+      break;
+  }
+
+  const hint = `${$(element).attr('class') ?? ''} ${$(element).attr('id') ?? ''}`;
+  if (NEGATIVE_PATTERN.test(hint)) score -= 25;
+  if (POSITIVE_PATTERN.test(hint)) score += 25;
+
+  return score;
+}
+
+/**
+ * Share of an element's text that is inside links
+ */
+function linkDensity($: cheerio.CheerioAPI, element: Element): number {
+  const textLength = $(element).text().trim().length;
+  if (textLength === 0) return 1;
+
+  const linkLength = $(element)
+    .find('a')
+    .toArray()
+    .reduce((sum, a) => sum + $(a).text().trim().length, 0);
+  return Math.min(linkLength / textLength, 1);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ArticleFingerprint, ArticleRepository } from '../repositories/article-repository.js';
+import { computeContentFingerprint, hammingDistance } from '../utils/fingerprint.js';
+import { computeArticleFingerprint, DuplicateDetector } from './duplicate-detector.js';
+
+const KANA =
+  'あいうえおかきくけこさしすせそたちつてとなにぬねのはひふへほまみむめもやゆよらりるれろわをん';
+
+/**
+ * Pseudo-random prose, so two articles share no text by chance
+ */
+function prose(seed: number, length = 600): string {
+  let state = seed;
+  return Array.from({ length }, (_, i) => {
+    state = (state * 48271) % 2147483647;
+    return KANA[state % KANA.length] + (i % 20 === 19 ? '、' : '');
+  }).join('');
+}
+
+const SITE_CHROME = Array.from(
+  { length: 120 },
+  (_, i) => `<li><a href="/ranking/${i}">ランキング記事タイトル${i}、人気のニュースです</a></li>`
+).join('');
+
+/**
+ * An article page of a site with a large sidebar and footer
+ */
+function articlePage(seed: number): string {
+  return `<html><body>
+    <header>サイト名</header>
+    <div class="article-body"><p>${prose(seed)}</p><p>${prose(seed + 1000)}</p></div>
+    <aside class="sidebar"><ul>${SITE_CHROME}</ul></aside>
+    <footer><ul>${SITE_CHROME}</ul></footer>
+  </body></html>`;
+}
+
+function distance(fingerprint: (html: string) => string | null, a: string, b: string): number {
+  const first = fingerprint(a);
+  const second = fingerprint(b);
+  if (!first || !second) {
+    throw new Error('Page has too little text to fingerprint');
+  }
+  return hammingDistance(first, second);
+}
+
+function detectorWith(rows: ArticleFingerprint[], maxDistance = 3): DuplicateDetector {
+  const articleRepo = {
+    getRecentFingerprints: async () => rows,
+  } as unknown as ArticleRepository;
+  return new DuplicateDetector(articleRepo, maxDistance, 3);
+}
+
+describe('computeArticleFingerprint', () => {
+  it('does not match different articles sharing the site chrome', () => {
+    const a = articlePage(1);
+    const b = articlePage(2);
+
+    // The whole page is dominated by the shared sidebar and footer
+    expect(distance(computeContentFingerprint, a, b)).toBeLessThanOrEqual(3);
+    expect(distance(computeArticleFingerprint, a, b)).toBeGreaterThan(3);
+  });
+
+  it('matches the same article under different chrome', () => {
+    const body = `<div class="article-body"><p>${prose(7)}</p><p>${prose(8)}</p></div>`;
+    const a = `<html><body><nav>サイトA</nav>${body}<footer>${SITE_CHROME}</footer></body></html>`;
+    const b = `<html><body><header>別のサイト</header>${body}<aside>関連記事</aside></body></html>`;
+
+    expect(distance(computeArticleFingerprint, a, b)).toBe(0);
+  });
+
+  it('skips pages with too little text', () => {
+    expect(computeArticleFingerprint('<html><body><p>短い</p></body></html>')).toBeNull();
+  });
+});
+
+describe('DuplicateDetector', () => {
+  const fingerprint = '00000000000000ff';
+
+  it('finds the closest article of another site within the threshold', async () => {
+    const detector = detectorWith([
+      { id: 1, site_id: 2, fingerprint: '0000000000000007' },
+      { id: 2, site_id: 3, fingerprint: '000000000000007f' },
+    ]);
+
+    expect(await detector.findDuplicate(1, fingerprint)).toEqual({
+      articleId: 2,
+      siteId: 3,
+      distance: 1,
+    });
+  });
+
+  it('ignores articles beyond the threshold', async () => {
+    const detector = detectorWith([{ id: 1, site_id: 2, fingerprint: '000000000000000f' }]);
+
+    expect(await detector.findDuplicate(1, fingerprint)).toBeNull();
+  });
+
+  it('ignores articles of the same site', async () => {
+    const detector = detectorWith([{ id: 1, site_id: 1, fingerprint }]);
+
+    expect(await detector.findDuplicate(1, fingerprint)).toBeNull();
+  });
+
+  it('matches fingerprints registered during the run', async () => {
+    const detector = detectorWith([]);
+    detector.register(2, fingerprint);
+
+    expect(await detector.findDuplicate(1, fingerprint)).toEqual({
+      articleId: null,
+      siteId: 2,
+      distance: 0,
+    });
+  });
+});
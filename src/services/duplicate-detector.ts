@@ -0,0 +1,79 @@
+/**
+ * Cross-site near-duplicate detection using content fingerprints
+ */
+
+import { ArticleFingerprint, ArticleRepository } from '../repositories/article-repository.js';
+import { appConfig } from '../utils/config.js';
+import { computeTextFingerprint, hammingDistance } from '../utils/fingerprint.js';
+import { logInfo } from '../utils/logger.js';
+import { extractMainText } from './content-extractor.js';
+
+export interface DuplicateMatch {
+  articleId: number | null;
+  siteId: number;
+  distance: number;
+}
+
+type KnownFingerprint = Omit<ArticleFingerprint, 'id'> & { id: number | null };
+
+/**
+ * Fingerprint of an article's main text
+ * Pages of the same site share sidebars, rankings and footers; fingerprinting
+ * the whole page would make unrelated articles of a site look alike.
+ * @returns Hex simhash, or null if the article has too little text
+ */
+export function computeArticleFingerprint(html: string): string | null {
+  return computeTextFingerprint(extractMainText(html));
+}
+
+/**
+ * Holds fingerprints of recent articles for one run.
+ * Shared between sites so the same story syndicated to several sites in the
+ * same run is caught too.
+ */
+export class DuplicateDetector {
+  private known: KnownFingerprint[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(
+    private articleRepo: ArticleRepository,
+    private maxDistance: number = appConfig.duplicateMaxDistance,
+    private windowDays: number = appConfig.duplicateWindowDays
+  ) {}
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      const since = new Date(Date.now() - this.windowDays * 24 * 60 * 60 * 1000).toISOString();
+      this.loadPromise = this.articleRepo.getRecentFingerprints(since).then((rows) => {
+        this.known.push(...rows);
+        logInfo(`Loaded ${rows.length} article fingerprints for duplicate detection.`);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Find a known article of another site whose fingerprint is within the
+   * distance threshold
+   */
+  async findDuplicate(siteId: number, fingerprint: string): Promise<DuplicateMatch | null> {
+    await this.load();
+
+    let best: DuplicateMatch | null = null;
+    for (const entry of this.known) {
+      if (entry.site_id === siteId) continue;
+      const distance = hammingDistance(fingerprint, entry.fingerprint);
+      if (distance <= this.maxDistance && (!best || distance < best.distance)) {
+        best = { articleId: entry.id, siteId: entry.site_id, distance };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Remember a fingerprint accepted during this run
+   */
+  register(siteId: number, fingerprint: string, articleId: number | null = null): void {
+    this.known.push({ id: articleId, site_id: siteId, fingerprint });
+  }
+}
@@ -0,0 +1,119 @@
+import Parser from 'rss-parser';
+import { describe, expect, it } from 'vitest';
+import { FeedFilterRule } from '../models/schemas.js';
+import { FeedFilter, feedItemFields, FilterableItem } from './feed-filter.js';
+
+const item: FilterableItem = {
+  title: '【速報】新型スマホが発表',
+  path: '/news/2025/10/phone?ref=rss',
+  categories: ['テクノロジー', 'ガジェット'],
+  author: '山田太郎',
+};
+
+function rule(overrides: Partial<FeedFilterRule> & Pick<FeedFilterRule, 'action' | 'pattern'>) {
+  return { fields: ['title'], ...overrides } as FeedFilterRule;
+}
+
+describe('FeedFilter', () => {
+  it('keeps every item without rules', () => {
+    const filter = new FeedFilter([]);
+    expect(filter.checkFeedItem(item)).toBeNull();
+    expect(filter.needsBody).toBe(false);
+  });
+
+  it('drops items matching an exclude rule, case-insensitively', () => {
+    const filter = new FeedFilter([rule({ action: 'exclude', pattern: '【速報】' })]);
+    expect(filter.checkFeedItem(item)).toBe('excluded by "【速報】"');
+
+    const caseFilter = new FeedFilter([
+      rule({ action: 'exclude', pattern: 'PR', fields: ['url'] }),
+    ]);
+    expect(caseFilter.checkFeedItem({ ...item, path: '/pr/1' })).not.toBeNull();
+  });
+
+  it('requires one include rule to match when any exist', () => {
+    const filter = new FeedFilter([
+      rule({ action: 'include', pattern: 'ガジェット', fields: ['category'] }),
+      rule({ action: 'include', pattern: '佐藤', fields: ['author'] }),
+    ]);
+    expect(filter.checkFeedItem(item)).toBeNull();
+    expect(filter.checkFeedItem({ ...item, categories: [] })).toBe('matched no include rule');
+  });
+
+  it('lets an exclude rule win over an include rule', () => {
+    const filter = new FeedFilter([
+      rule({ action: 'include', pattern: 'スマホ' }),
+      rule({ action: 'exclude', pattern: '/news/', fields: ['url'] }),
+    ]);
+    expect(filter.checkFeedItem(item)).toBe('excluded by "/news/"');
+  });
+
+  it('matches regex patterns and ignores invalid ones', () => {
+    const filter = new FeedFilter([
+      rule({ action: 'exclude', pattern: '^/news/\\d{4}/', fields: ['url'], regex: true }),
+      rule({ action: 'exclude', pattern: '[', regex: true }),
+    ]);
+    expect(filter.checkFeedItem(item)).toBe('excluded by "^/news/\\d{4}/"');
+    expect(filter.checkFeedItem({ ...item, path: '/column/1' })).toBeNull();
+  });
+
+  it('does not match the author of items without one', () => {
+    const filter = new FeedFilter([
+      rule({ action: 'exclude', pattern: '山田', fields: ['author'] }),
+    ]);
+    expect(filter.checkFeedItem({ ...item, author: null })).toBeNull();
+  });
+
+  describe('body rules', () => {
+    const filter = new FeedFilter([
+      rule({ action: 'exclude', pattern: 'スポンサー', fields: ['body'] }),
+      rule({ action: 'include', pattern: '発売日', fields: ['body'] }),
+    ]);
+
+    it('are reported as needing the body', () => {
+      expect(filter.needsBody).toBe(true);
+    });
+
+    it('are skipped before the article is fetched', () => {
+      expect(filter.checkFeedItem(item)).toBeNull();
+    });
+
+    it('are checked against the processed article', () => {
+      expect(filter.checkArticle({ ...item, body: '発売日は来月です。' })).toBeNull();
+      expect(filter.checkArticle({ ...item, body: '提供：スポンサー。発売日は未定。' })).toBe(
+        'excluded by "スポンサー"'
+      );
+      expect(filter.checkArticle({ ...item, body: '詳細は未定です。' })).toBe(
+        'matched no include rule'
+      );
+    });
+  });
+});
+
+describe('feedItemFields', () => {
+  it('reads categories with attributes and the creator', () => {
+    const feedItem = {
+      title: 'タイトル',
+      creator: '編集部',
+      categories: ['ニュース', { _: '国内', $: { domain: 'example.com' } }],
+    } as unknown as Parser.Item;
+
+    expect(feedItemFields(feedItem, 'https://example.com/a/1?p=2')).toEqual({
+      title: 'タイトル',
+      path: '/a/1?p=2',
+      categories: ['ニュース', '国内'],
+      author: '編集部',
+    });
+  });
+
+  it('falls back to the Atom author and empty values', () => {
+    const feedItem = { author: 'Jane' } as unknown as Parser.Item;
+
+    expect(feedItemFields(feedItem, 'https://example.com/')).toEqual({
+      title: '',
+      path: '/',
+      categories: [],
+      author: 'Jane',
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Feed item filtering
+ *
+ * Include and exclude rules decide which new feed items are scraped. Rules
+ * come from FEED_FILTER_RULES (every site) and the site's
+ * scrape_options.filters. An item matching an exclude rule is dropped; when
+ * include rules exist, an item must match at least one of them.
+ *
+ * Rules on title, URL path, categories and author are checked before the
+ * article is fetched. Rules on the body need the processed article, so they
+ * are checked afterwards; links they filter out are kept in filtered_items so
+ * they are fetched only once. Changed rules don't bring those items back.
+ */
+
+import Parser from 'rss-parser';
+import { FeedFilterRule, Site } from '../models/schemas.js';
+import { appConfig } from '../utils/config.js';
+import { logWarn } from '../utils/logger.js';
+
+/**
+ * Values of a feed item that rules are matched against
+ */
+export interface FilterableItem {
+  title: string;
+  // Path and query of the article URL
+  path: string;
+  categories: string[];
+  author: string | null;
+  // Plain text of the processed article, once fetched
+  body?: string;
+}
+
+interface CompiledRule {
+  rule: FeedFilterRule;
+  test: (value: string) => boolean;
+}
+
+export class FeedFilter {
+  private rules: CompiledRule[];
+
+  constructor(rules: FeedFilterRule[]) {
+    this.rules = rules.flatMap((rule) => {
+      const test = compilePattern(rule);
+      return test ? [{ rule, test }] : [];
+    });
+  }
+
+  /**
+   * Global rules followed by the site's own rules
+   */
+  static forSite(site: Site): FeedFilter {
+    return new FeedFilter([...appConfig.feedFilterRules, ...(site.scrape_options?.filters ?? [])]);
+  }
+
+  /**
+   * Whether any rule needs the processed article body
+   */
+  get needsBody(): boolean {
+    return this.rules.some(({ rule }) => usesBody(rule));
+  }
+
+  /**
+   * Check an item before it is fetched; rules on the body are skipped
+   * @returns Why the item is filtered out, or null to fetch it
+   */
+  checkFeedItem(item: FilterableItem): string | null {
+    return this.check(item, false);
+  }
+
+  /**
+   * Check a processed article against every rule
+   * @returns Why the article is filtered out, or null to keep it
+   */
+  checkArticle(item: FilterableItem & { body: string }): string | null {
+    return this.check(item, true);
+  }
+
+  private check(item: FilterableItem, withBody: boolean): string | null {
+    const excluded = this.rules.find(
+      (r) => r.rule.action === 'exclude' && (withBody || !usesBody(r.rule)) && matches(r, item)
+    );
+    if (excluded) {
+      return `excluded by "${excluded.rule.pattern}"`;
+    }
+
+    const includes = this.rules.filter((r) => r.rule.action === 'include');
+    if (includes.length === 0) {
+      return null;
+    }
+    // Without the body, an include rule on it could still match
+    if (!withBody && includes.some((r) => usesBody(r.rule))) {
+      return null;
+    }
+    return includes.some((r) => matches(r, item)) ? null : 'matched no include rule';
+  }
+}
+
+/**
+ * Filterable values of a feed item
+ */
+export function feedItemFields(item: Parser.Item, link: string): FilterableItem {
+  // Categories with attributes are parsed as { _: name, $: attributes }
+  const categories = ((item.categories ?? []) as unknown[])
+    .map((c) => (typeof c === 'string' ? c : ((c as { _?: string })._ ?? '')))
+    .filter(Boolean);
+  // RSS <author> and dc:creator are parsed as creator, Atom <author> as author
+  const author = item.creator ?? (item as { author?: string }).author ?? null;
+
+  return { title: item.title ?? '', path: urlPath(link), categories, author };
+}
+
+function usesBody(rule: FeedFilterRule): boolean {
+  return rule.fields.includes('body');
+}
+
+function matches({ rule, test }: CompiledRule, item: FilterableItem): boolean {
+  return rule.fields.some((field) => {
+    switch (field) {
+      case 'title':
+        return test(item.title);
+      case 'url':
+        return test(item.path);
+      case 'category':
+        return item.categories.some(test);
+      case 'author':
+        return item.author !== null && test(item.author);
+      case 'body':
+        return item.body !== undefined && test(item.body);
+    }
+  });
+}
+
+/**
+ * Case-insensitive matcher for a rule, or null when its regex is invalid
+ */
+function compilePattern(rule: FeedFilterRule): ((value: string) => boolean) | null {
+  if (!rule.regex) {
+    const pattern = rule.pattern.toLowerCase();
+    return (value) => value.toLowerCase().includes(pattern);
+  }
+
+  try {
+    const regex = new RegExp(rule.pattern, 'i');
+    return (value) => regex.test(value);
+  } catch (error) {
+    logWarn(`Ignoring filter rule with invalid regex: ${rule.pattern}`, error);
+    return null;
+  }
+}
+
+function urlPath(link: string): string {
+  try {
+    const url = new URL(link);
+    return url.pathname + url.search;
+  } catch {
+    return link;
+  }
+}
@@ -0,0 +1,135 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { FormatRule } from '../../models/schemas.js';
+import { applyFormatRules, formatPage, getFormatters, registerFormatter } from './index.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+function loadFixture(name: string): cheerio.CheerioAPI {
+  return cheerio.load(readFileSync(join(FIXTURES, name), 'utf8'));
+}
+
+/**
+ * Markup with the whitespace between tags removed, so fixtures can be indented
+ */
+function normalize(html: string): string {
+  return html.replace(/>\s+</g, '><').trim();
+}
+
+function formatted(name: string): string {
+  return normalize(readFileSync(join(FIXTURES, name), 'utf8'));
+}
+
+describe('formatPage', () => {
+  it('moves the vippers.jp article header above the body', () => {
+    const $ = loadFixture('vippers-jp.html');
+    formatPage($, 'https://vippers.jp/archives/1.html');
+
+    expect(normalize($.html())).toBe(formatted('vippers-jp.formatted.html'));
+  });
+
+  it('matches the vippers.jp formatter with the equivalent rule', () => {
+    const $ = loadFixture('vippers-jp.html');
+    formatPage($, 'https://example.com/archives/1.html', [
+      {
+        op: 'move_before',
+        selector: 'header.section-box',
+        index: 1,
+        target: 'div#article-contents',
+      },
+    ]);
+
+    expect(normalize($.html())).toBe(formatted('vippers-jp.formatted.html'));
+  });
+
+  it('leaves pages of other domains unchanged', () => {
+    const $ = loadFixture('vippers-jp.html');
+    formatPage($, 'https://example.com/archives/1.html');
+
+    expect($.html()).toBe(loadFixture('vippers-jp.html').html());
+  });
+
+  it('runs formatters registered for the domain with or without www', () => {
+    registerFormatter('formatter-test.example', ($) => {
+      $('body').attr('data-formatted', 'true');
+    });
+    const $ = cheerio.load('<html><body></body></html>');
+    formatPage($, 'https://www.formatter-test.example/a');
+
+    expect($('body').attr('data-formatted')).toBe('true');
+    expect(getFormatters('WWW.Formatter-Test.example')).toHaveLength(1);
+  });
+
+  it('keeps going when a formatter throws', () => {
+    registerFormatter('failing-formatter.example', () => {
+      throw new Error('broken formatter');
+    });
+    const $ = cheerio.load('<html><body><p class="x">a</p></body></html>');
+    formatPage($, 'https://failing-formatter.example/a', [{ op: 'remove', selector: 'p.x' }]);
+
+    expect($('p.x')).toHaveLength(0);
+  });
+});
+
+describe('applyFormatRules', () => {
+  function apply(rules: FormatRule[]): cheerio.CheerioAPI {
+    const $ = loadFixture('rules.html');
+    applyFormatRules($, rules);
+    return $;
+  }
+
+  it('removes every match', () => {
+    const $ = apply([{ op: 'remove', selector: 'div.ad' }]);
+    expect($('div.ad')).toHaveLength(0);
+  });
+
+  it('applies a rule to the match at index only', () => {
+    const $ = apply([{ op: 'remove', selector: 'p.note', index: 1 }]);
+    expect($('p.note').text()).toBe('注釈一');
+  });
+
+  it('unwraps elements and keeps their children', () => {
+    const $ = apply([{ op: 'unwrap', selector: 'span.wrapper' }]);
+    expect($('span.wrapper')).toHaveLength(0);
+    expect($('#article > p').first().text()).toBe('本文の一段落目');
+  });
+
+  it('renames tags and keeps their attributes', () => {
+    const $ = apply([{ op: 'rename_tag', selector: 'b.lead', tag: 'p' }]);
+    expect($('p.lead').text()).toBe('リード文');
+    expect($('b.lead')).toHaveLength(0);
+  });
+
+  it('sets and removes attributes', () => {
+    const $ = apply([
+      { op: 'set_attr', selector: 'img.lazy', attr: 'src', value: 'photo.jpg' },
+      { op: 'set_attr', selector: 'img.lazy', attr: 'data-src', value: null },
+    ]);
+    expect($('img.lazy').attr('src')).toBe('photo.jpg');
+    expect($('img.lazy').attr('data-src')).toBeUndefined();
+  });
+
+  it('moves elements before the first target', () => {
+    const $ = apply([{ op: 'move_before', selector: 'b.lead', target: '#article > *' }]);
+    expect($('#article').children().first().is('b.lead')).toBe(true);
+  });
+
+  it('ignores rules without matches or target', () => {
+    const $ = apply([
+      { op: 'remove', selector: 'div.missing' },
+      { op: 'move_before', selector: 'b.lead', target: 'div.missing' },
+    ]);
+    expect($.html()).toBe(loadFixture('rules.html').html());
+  });
+
+  it('skips an invalid rule and applies the rest', () => {
+    const $ = apply([
+      { op: 'remove', selector: 'div[' },
+      { op: 'remove', selector: 'div.ad' },
+    ]);
+    expect($('div.ad')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Domain-specific page formatting
+ *
+ * Built-in formatters are registered here. Simple fixes should be stored
+ * as format_rules in scrape_options instead of adding a module.
+ */
+
+import * as cheerio from 'cheerio';
+import { FormatRule } from '../../models/schemas.js';
+import { logWarn } from '../../utils/logger.js';
+import { getFormatters, registerFormatter } from './registry.js';
+import { applyFormatRules } from './rules.js';
+import { formatVippersJp } from './vippers-jp.js';
+
+registerFormatter('vippers.jp', formatVippersJp);
+
+/**
+ * Run registered formatters for the page's domain, then the site's rules
+ */
+export function formatPage(
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  formatRules: FormatRule[] = []
+): void {
+  let domain: string;
+  try {
+    domain = new URL(pageUrl).hostname;
+  } catch {
+    logWarn(`Failed to parse URL for formatPage: ${pageUrl}`);
+    return;
+  }
+
+  for (const formatter of getFormatters(domain)) {
+    try {
+      formatter($, pageUrl);
+    } catch (error) {
+      logWarn(`Formatter failed for ${domain}`, error);
+    }
+  }
+
+  applyFormatRules($, formatRules);
+}
+
+export { registerFormatter, getFormatters, clearFormatters } from './registry.js';
+export type { PageFormatter } from './registry.js';
+export { applyFormatRules } from './rules.js';
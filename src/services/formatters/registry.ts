@@ -0,0 +1,38 @@
+/**
+ * Registry of per-domain page formatters
+ */
+
+import * as cheerio from 'cheerio';
+
+/**
+ * A domain-specific transform applied to the processed page
+ */
+export type PageFormatter = ($: cheerio.CheerioAPI, pageUrl: string) => void;
+
+const formatters = new Map<string, PageFormatter[]>();
+
+/**
+ * Register a formatter for a hostname (e.g. 'vippers.jp')
+ */
+export function registerFormatter(domain: string, formatter: PageFormatter): void {
+  const key = normalizeDomain(domain);
+  formatters.set(key, [...(formatters.get(key) ?? []), formatter]);
+}
+
+/**
+ * Get formatters registered for a hostname ("www." is ignored)
+ */
+export function getFormatters(domain: string): PageFormatter[] {
+  return formatters.get(normalizeDomain(domain)) ?? [];
+}
+
+/**
+ * Remove all registered formatters (for tests)
+ */
+export function clearFormatters(): void {
+  formatters.clear();
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^www\./, '');
+}
@@ -0,0 +1,64 @@
+/**
+ * Declarative formatting rules stored in scrape_options.format_rules
+ *
+ * Example (vippers.jp):
+ *   { "op": "move_before", "selector": "header.section-box", "index": 1,
+ *     "target": "div#article-contents" }
+ */
+
+import * as cheerio from 'cheerio';
+import { isTag } from 'domhandler';
+import { FormatRule } from '../../models/schemas.js';
+import { logWarn } from '../../utils/logger.js';
+
+/**
+ * Apply rules in order; an invalid rule is logged and skipped
+ */
+export function applyFormatRules($: cheerio.CheerioAPI, rules: FormatRule[]): void {
+  for (const rule of rules) {
+    try {
+      applyFormatRule($, rule);
+    } catch (error) {
+      logWarn(`Failed to apply format rule ${rule.op} (${rule.selector})`, error);
+    }
+  }
+}
+
+function applyFormatRule($: cheerio.CheerioAPI, rule: FormatRule): void {
+  const matches = $(rule.selector);
+  const elements = rule.index === undefined ? matches : matches.eq(rule.index);
+  if (elements.length === 0) return;
+
+  switch (rule.op) {
+    case 'move_before': {
+      const target = $(rule.target).first();
+      if (target.length === 0) return;
+      elements.insertBefore(target);
+      break;
+    }
+
+    case 'unwrap':
+      elements.each((_, elem) => {
+        $(elem).replaceWith($(elem).contents());
+      });
+      break;
+
+    case 'remove':
+      elements.remove();
+      break;
+
+    case 'rename_tag':
+      elements.each((_, elem) => {
+        if (isTag(elem)) elem.tagName = rule.tag;
+      });
+      break;
+
+    case 'set_attr':
+      if (rule.value === null) {
+        elements.removeAttr(rule.attr);
+      } else {
+        elements.attr(rule.attr, rule.value);
+      }
+      break;
+  }
+}
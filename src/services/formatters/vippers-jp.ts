@@ -0,0 +1,19 @@
+/**
+ * vippers.jp: show the article header above the article body
+ */
+
+import * as cheerio from 'cheerio';
+
+export function formatVippersJp($: cheerio.CheerioAPI): void {
+  // Get the second header.section-box
+  const headers = $('header.section-box');
+  if (headers.length < 2) return;
+
+  const secondHeader = headers.eq(1);
+  const articleContents = $('div#article-contents');
+
+  if (articleContents.length === 0) return;
+
+  // Move second header before article-contents
+  secondHeader.insertBefore(articleContents);
+}
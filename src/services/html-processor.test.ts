@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { processArticleHtml } from './html-processor.js';
+
+describe('processArticleHtml', () => {
+  const paginated = `<html><body>
+    <div id="article-contents" class="article-body"><p>1ページ目の本文</p></div>
+    <p class="next"><a class="pagingNav" href="/news/1?page=2">次のページ</a></p>
+  </body></html>`;
+
+  it('rejects a paginated page when fetching later pages is disabled', async () => {
+    await expect(
+      processArticleHtml(paginated, 'https://example.com/news/1', [], new Set(), {
+        fetchPages: false,
+      })
+    ).rejects.toThrow('is paginated and fetching later pages is disabled');
+  });
+
+  it('processes a single page without fetching', async () => {
+    const html = '<html><body><div id="article-contents"><p>本文</p></div></body></html>';
+    const content = await processArticleHtml(html, 'https://example.com/news/2', [], new Set(), {
+      fetchPages: false,
+    });
+
+    expect(content).toContain('<p>本文</p>');
+  });
+
+  it('processes the last page of a site with pagination settings without fetching', async () => {
+    const html = '<html><body><article><p>最終ページ</p></article></body></html>';
+    const content = await processArticleHtml(html, 'https://example.com/news/3', [], new Set(), {
+      pagination: { contentSelector: 'article' },
+      fetchPages: false,
+    });
+
+    expect(content).toContain('<p>最終ページ</p>');
+  });
+});
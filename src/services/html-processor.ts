@@ -6,8 +6,42 @@
 import * as cheerio from 'cheerio';
 import { appConfig, MEDIA_REGEX, VIDEO_REGEX } from '../utils/config.js';
 import { logDebug, logWarn } from '../utils/logger.js';
-import { fetchHtml } from '../utils/http-client.js';
+import { smartFetchHtml, SmartFetchOptions } from '../utils/smart-http-client.js';
 import beautify from 'js-beautify';
+import { extractMainContent, ExtractionOptions } from './content-extractor.js';
+import { formatPage } from './formatters/index.js';
+import { convertTweetEmbeds, StaticTweetCardRenderer, TweetCardRenderer } from './tweet-cards.js';
+import { FormatRule } from '../models/schemas.js';
+
+export interface PaginationOptions {
+  nextSelector?: string;
+  contentSelector?: string;
+  maxPages?: number;
+}
+
+export interface ProcessArticleOptions extends ExtractionOptions {
+  formatRules?: FormatRule[];
+  // Enables pagination with these settings (legacy pagingNav is always detected)
+  pagination?: PaginationOptions;
+  // Used to fetch additional pages; defaults to plain fetch
+  fetchOptions?: SmartFetchOptions;
+  // Set to false to reject pages linking to a next page instead of fetching it
+  fetchPages?: boolean;
+  tweetRenderer?: TweetCardRenderer;
+}
+
+const defaultTweetRenderer = new StaticTweetCardRenderer();
+
+/**
+ * Built-in layout: div#article-contents with p.next > a.pagingNav
+ */
+const LEGACY_PAGINATION = {
+  nextSelector: 'p.next > a.pagingNav',
+  contentSelector: 'div#article-contents, div.article-body',
+};
+
+const DEFAULT_NEXT_SELECTOR = 'link[rel="next"], a[rel="next"]';
+const DEFAULT_MAX_PAGES = 10;
 
 /**
  * Process article HTML: main pipeline
@@ -16,8 +50,8 @@ export async function processArticleHtml(
   html: string,
   pageUrl: string,
   removeSelectorsList: string[],
-  allowHosts: Set<string>
-  // renderTwitterCard?: (blockquoteHtml: string, scriptHtml: string) => Promise<string | null>
+  allowHosts: Set<string>,
+  options: ProcessArticleOptions = {}
 ): Promise<string> {
   const $ = cheerio.load(html);
 
@@ -25,9 +59,17 @@ export async function processArticleHtml(
   absolutizePaths($, pageUrl);
 
   // Step 2: Check and process pagination
-  if (checkPagingContents($)) {
+  const pagination = resolvePagination($, options.pagination);
+  if (pagination) {
     logDebug('Starting pagination processing');
-    await processPaging($, pageUrl, removeSelectorsList, allowHosts);
+    await processPaging(
+      $,
+      pageUrl,
+      pagination,
+      removeSelectorsList,
+      allowHosts,
+      options.fetchPages === false ? null : (options.fetchOptions ?? { strategy: 'fetch' })
+    );
   }
 
   // Step 3: Remove scripts (except allowed hosts)
@@ -36,10 +78,11 @@ export async function processArticleHtml(
   // Step 4: Remove unwanted selectors
   removeSelectors($, removeSelectorsList);
 
-  // Step 5: Convert Twitter cards (if renderer provided)
-  // if (renderTwitterCard) {
-  //   await convertTwitterCards($, renderTwitterCard);
-  // }
+  // Step 4.5: Keep only the main content (extraction_mode)
+  extractMainContent($, options);
+
+  // Step 5: Convert tweet embeds to static cards
+  await convertTweetEmbeds($, options.tweetRenderer ?? defaultTweetRenderer);
 
   // Step 6: Unwrap Imgur embeds (before anchor processing)
   unwrapImgur($);
@@ -63,7 +106,7 @@ export async function processArticleHtml(
   injectResetCSS($);
 
   // Step 13: Format page (domain-specific customization)
-  formatPage($, pageUrl);
+  formatPage($, pageUrl, options.formatRules);
 
   const sanitizedHtml = $.html();
   let processedHtml = sanitizedHtml.replace(/\n{2,}/g, '\n\n');
@@ -126,45 +169,6 @@ function injectResetCSS($: cheerio.CheerioAPI): void {
 }
 
 
-/**
- * Domain-specific page formatting
- */
-function formatPage($: cheerio.CheerioAPI, pageUrl: string): void {
-  try {
-    const url = new URL(pageUrl);
-    const domain = url.hostname;
-
-    switch (domain) {
-      case 'vippers.jp': {
-        // Get the second header.section-box
-        const headers = $('header.section-box');
-        if (headers.length < 2) break;
-
-        const secondHeader = headers.eq(1);
-        const articleContents = $('div#article-contents');
-
-        if (articleContents.length === 0) break;
-
-        // Move second header before article-contents
-        secondHeader.insertBefore(articleContents);
-        break;
-      }
-
-      // Add more domain-specific formatting here
-      // case 'example.com': {
-      //   // Custom formatting for example.com
-      //   break;
-      // }
-
-      default:
-        // No special formatting needed
-        break;
-    }
-  } catch (error) {
-    logWarn(`Failed to parse URL for formatPage: ${pageUrl}`);
-  }
-}
-
 /**
  * Make all relative URLs absolute
  */
@@ -205,55 +209,112 @@ function checkPagingContents($: cheerio.CheerioAPI): boolean {
 }
 
 /**
- * Process pagination: fetch all pages and append content
+ * Decide which pagination settings apply to the page, if any
+ */
+function resolvePagination(
+  $: cheerio.CheerioAPI,
+  options?: PaginationOptions
+): Required<PaginationOptions> | null {
+  if (options) {
+    return {
+      nextSelector: options.nextSelector ?? DEFAULT_NEXT_SELECTOR,
+      contentSelector: options.contentSelector ?? 'body',
+      maxPages: options.maxPages ?? DEFAULT_MAX_PAGES,
+    };
+  }
+
+  if (checkPagingContents($)) {
+    return { ...LEGACY_PAGINATION, maxPages: DEFAULT_MAX_PAGES };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the next page URL from a link element
+ */
+function findNextPageUrl(
+  $: cheerio.CheerioAPI,
+  nextSelector: string,
+  currentUrl: string
+): string | null {
+  const href = $(nextSelector).first().attr('href');
+  if (!href) return null;
+
+  try {
+    const url = new URL(href, currentUrl);
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Process pagination: fetch all pages, clean them and append their content
+ * @param fetchOptions - null when later pages must not be fetched
  */
 async function processPaging(
   $: cheerio.CheerioAPI,
   pageUrl: string,
-  _removeSelectorsList: string[],
-  _allowHosts: Set<string>
-  // _renderTwitterCard?: (blockquoteHtml: string, scriptHtml: string) => Promise<string | null>
+  pagination: Required<PaginationOptions>,
+  removeSelectorsList: string[],
+  allowHosts: Set<string>,
+  fetchOptions: SmartFetchOptions | null
 ): Promise<void> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const nextPageContents: any[] = [];
-  let currentUrl = pageUrl;
-  let nextPageLink = $('p.next > a.pagingNav').first();
+  const { nextSelector, contentSelector, maxPages } = pagination;
 
-  while (nextPageLink.length > 0) {
-    const href = nextPageLink.attr('href');
-    if (!href) break;
+  const mainArticleBody = $(contentSelector).first();
+  if (mainArticleBody.length === 0) {
+    logWarn(`Pagination content selector not found: ${contentSelector}`);
+    return;
+  }
 
-    const nextPageUrl = new URL(href, currentUrl).href;
+  const visited = new Set([pageUrl.split('#')[0]]);
+  let nextPageUrl = findNextPageUrl($, nextSelector, pageUrl);
+  let pageCount = 1;
 
-    const nextPageHtml = await fetchHtml(nextPageUrl, 'mobile');
+  while (nextPageUrl) {
+    if (!fetchOptions) {
+      throw new Error(`Page ${pageUrl} is paginated and fetching later pages is disabled`);
+    }
+    if (visited.has(nextPageUrl)) {
+      logWarn(`Pagination loop detected at ${nextPageUrl}`);
+      break;
+    }
+    if (pageCount >= maxPages) {
+      logWarn(`Pagination stopped at max pages (${maxPages}) for ${pageUrl}`);
+      break;
+    }
+    visited.add(nextPageUrl);
+
+    const nextPageHtml = await smartFetchHtml(nextPageUrl, fetchOptions);
     if (!nextPageHtml) {
       logWarn(`Failed to fetch page: ${nextPageUrl}`);
       break;
     }
 
     const next$ = cheerio.load(nextPageHtml);
+    absolutizePaths(next$, nextPageUrl);
+
+    // Read the next link before cleaning, as remove selectors may drop the pager
+    const followingPageUrl = findNextPageUrl(next$, nextSelector, nextPageUrl);
 
     // Important: Process each page to clean it
-    const articleBody = next$('div#article-contents, div.article-body').first();
+    removeScripts(next$, allowHosts);
+    removeSelectors(next$, removeSelectorsList);
+
+    const articleBody = next$(contentSelector).first();
     if (articleBody.length > 0) {
-      articleBody.children().each((_, child) => {
-        nextPageContents.push(child);
-      });
+      mainArticleBody.append(articleBody.html() ?? '');
     }
 
-    nextPageLink = next$('p.next > a.pagingNav').first();
-    currentUrl = nextPageUrl;
-  }
-
-  // Append all collected content to main article body
-  const mainArticleBody = $('div#article-contents, div.article-body').first();
-  if (mainArticleBody.length > 0) {
-    nextPageContents.forEach((content) => {
-      mainArticleBody.append(content);
-    });
+    pageCount++;
+    nextPageUrl = followingPageUrl;
   }
 
   // Remove pagination elements
+  $(nextSelector).remove();
   $('div.article-inner-pager').remove();
 }
 
@@ -294,43 +355,6 @@ function removeSelectors($: cheerio.CheerioAPI, selectors: string[]): void {
   });
 }
 
-/**
- * Convert Twitter blockquotes to rendered cards
- */
-// async function convertTwitterCards(
-//   $: cheerio.CheerioAPI,
-//   renderTwitterCard: (blockquoteHtml: string, scriptHtml: string) => Promise<string | null>
-// ): Promise<void> {
-//   const twitterScript = $('script[src*="platform.twitter.com/widgets.js"]').first();
-//   if (twitterScript.length === 0) return;
-//
-//   const scriptHtml = $.html(twitterScript);
-//   const blockquotes = $('blockquote.twitter-tweet').toArray();
-//
-//   for (const blockquote of blockquotes) {
-//     const $blockquote = $(blockquote);
-//
-//     // Fix empty link text
-//     const link = $blockquote.find('a').first();
-//     if (link.length > 0 && !link.text().trim()) {
-//       const href = link.attr('href');
-//       if (href) {
-//         link.text(href);
-//       }
-//     }
-//
-//     const blockquoteHtml = $.html($blockquote);
-//     const renderedCard = await renderTwitterCard(blockquoteHtml, scriptHtml);
-//
-//     if (renderedCard) {
-//       $blockquote.replaceWith(renderedCard);
-//     }
-//   }
-//
-//   // Remove Twitter script after processing
-//   $('script[src*="platform.twitter.com/widgets.js"]').remove();
-// }
-
 /**
  * Unwrap Imgur embeds
  */
@@ -0,0 +1,242 @@
+/**
+ * Run notifications
+ *
+ * Events are rendered with a message template and sent to every configured
+ * sink: a generic JSON webhook, a Slack-compatible incoming webhook, or a
+ * JSON Lines file (for tests and local runs). Sending never throws, so a
+ * broken sink cannot fail the run.
+ */
+
+import { appendFile } from 'node:fs/promises';
+import { Article, RunReport, Site } from '../models/schemas.js';
+import { appConfig } from '../utils/config.js';
+import { logError, logInfo } from '../utils/logger.js';
+
+export type NotificationEventType =
+  | 'fatal_error'
+  | 'failure_rate'
+  | 'site_disabled'
+  | 'keyword_match';
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  // Template variables; also sent as structured data to JSON sinks
+  data: Record<string, string | number>;
+}
+
+export interface Notification extends NotificationEvent {
+  message: string;
+}
+
+export interface Notifier {
+  send(notification: Notification): Promise<void>;
+}
+
+const NOTIFY_TIMEOUT_MS = 10000;
+
+/**
+ * Default message templates; `{{name}}` is replaced with event data
+ */
+export const DEFAULT_TEMPLATES: Record<NotificationEventType, string> = {
+  fatal_error: '🚨 Scrape run failed: {{error}}',
+  failure_rate: '⚠️ {{failed}}/{{total}} sites failed ({{percent}}%): {{sites}}',
+  site_disabled:
+    '⛔ Site {{siteId}} ({{title}}) was disabled after repeated failures. Last error: {{error}}',
+  keyword_match: '🔎 {{count}} new articles matched {{keywords}}:\n{{articles}}',
+};
+
+/**
+ * POST `{ type, message, data }` as JSON
+ */
+export class WebhookNotifier implements Notifier {
+  constructor(private url: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.url, notification);
+  }
+}
+
+/**
+ * POST `{ text }`, the payload of Slack (and compatible) incoming webhooks
+ */
+export class SlackNotifier implements Notifier {
+  constructor(private url: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.url, { text: notification.message });
+  }
+}
+
+/**
+ * Append notifications to a JSON Lines file
+ */
+export class FileNotifier implements Notifier {
+  constructor(private path: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await appendFile(
+      this.path,
+      JSON.stringify({ ...notification, sent_at: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from notification webhook`);
+  }
+}
+
+/**
+ * Notifiers for the sinks configured in the environment
+ */
+export function createNotifiers(): Notifier[] {
+  const notifiers: Notifier[] = [];
+  if (appConfig.notifyWebhookUrl) notifiers.push(new WebhookNotifier(appConfig.notifyWebhookUrl));
+  if (appConfig.notifySlackWebhookUrl) {
+    notifiers.push(new SlackNotifier(appConfig.notifySlackWebhookUrl));
+  }
+  if (appConfig.notifyFile) notifiers.push(new FileNotifier(appConfig.notifyFile));
+  return notifiers;
+}
+
+/**
+ * Replace `{{name}}` placeholders; unknown names are left as they are
+ */
+export function renderTemplate(template: string, data: Record<string, string | number>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    name in data ? String(data[name]) : placeholder
+  );
+}
+
+export interface RunNotifierOptions {
+  failureRate?: number;
+  minSites?: number;
+  keywords?: string[];
+  templates?: Partial<Record<NotificationEventType, string>>;
+}
+
+interface KeywordMatch {
+  keyword: string;
+  siteTitle: string;
+  title: string;
+  url: string;
+}
+
+/**
+ * Collects keyword matches during a run and sends the run's notifications
+ * once it finishes
+ */
+export class RunNotifier {
+  private failureRate: number;
+  private minSites: number;
+  private keywords: string[];
+  private templates: Record<string, string>;
+  private matches: KeywordMatch[] = [];
+
+  constructor(
+    private notifiers: Notifier[] = createNotifiers(),
+    options: RunNotifierOptions = {}
+  ) {
+    this.failureRate = options.failureRate ?? appConfig.notifyFailureRate;
+    this.minSites = options.minSites ?? appConfig.notifyMinSites;
+    this.keywords = options.keywords ?? appConfig.notifyKeywords;
+    this.templates = { ...DEFAULT_TEMPLATES, ...appConfig.notifyTemplates, ...options.templates };
+  }
+
+  /**
+   * Check new article titles against the keywords
+   */
+  matchArticles(site: Site, articles: Pick<Article, 'title' | 'url'>[]): void {
+    if (this.keywords.length === 0) return;
+
+    for (const article of articles) {
+      const title = article.title.toLowerCase();
+      const keyword = this.keywords.find((k) => title.includes(k.toLowerCase()));
+      if (keyword) {
+        this.matches.push({
+          keyword,
+          siteTitle: site.title,
+          title: article.title,
+          url: article.url,
+        });
+      }
+    }
+  }
+
+  /**
+   * Send the notifications for a finished run
+   */
+  async notifyRun(report: RunReport): Promise<void> {
+    const events = this.eventsFor(report);
+    if (events.length === 0 || this.notifiers.length === 0) return;
+
+    logInfo(`Sending ${events.length} notifications to ${this.notifiers.length} sinks...`);
+    for (const event of events) {
+      await this.send(event);
+    }
+  }
+
+  private eventsFor(report: RunReport): NotificationEvent[] {
+    const events: NotificationEvent[] = [];
+
+    if (report.fatal_error) {
+      events.push({ type: 'fatal_error', data: { error: report.fatal_error } });
+    }
+
+    const failed = report.sites.filter((s) => s.status === 'failed');
+    const total = report.sites.length;
+    if (failed.length > 0 && total >= this.minSites && failed.length / total >= this.failureRate) {
+      events.push({
+        type: 'failure_rate',
+        data: {
+          failed: failed.length,
+          total,
+          percent: Math.round((failed.length / total) * 100),
+          sites: failed.map((s) => s.title).join(', '),
+        },
+      });
+    }
+
+    for (const site of report.sites.filter((s) => s.auto_disabled)) {
+      events.push({
+        type: 'site_disabled',
+        data: { siteId: site.site_id, title: site.title, error: site.error ?? '' },
+      });
+    }
+
+    if (this.matches.length > 0) {
+      events.push({
+        type: 'keyword_match',
+        data: {
+          count: this.matches.length,
+          keywords: [...new Set(this.matches.map((m) => m.keyword))].join(', '),
+          articles: this.matches.map((m) => `- [${m.siteTitle}] ${m.title} ${m.url}`).join('\n'),
+        },
+      });
+    }
+
+    return events;
+  }
+
+  private async send(event: NotificationEvent): Promise<void> {
+    const notification: Notification = {
+      ...event,
+      message: renderTemplate(this.templates[event.type], event.data),
+    };
+
+    const results = await Promise.allSettled(this.notifiers.map((n) => n.send(notification)));
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        logError(`Failed to send ${event.type} notification`, result.reason);
+      }
+    });
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Reconciliation between Supabase article rows and R2 article objects
+ *
+ * Finds two kinds of mismatch:
+ * - missing content: a row exists but R2 has no HTML (upload failed after insert)
+ * - orphan: R2 has HTML but the row is gone (R2 delete failed after row delete)
+ *
+ * Missing content is re-fetched and re-processed; orphans are deleted or
+ * moved to quarantine/ on the worker.
+ */
+
+import { ArticleRepository, ArticleSource } from '../repositories/article-repository.js';
+import {
+  ArticleContentItem,
+  ArticlesApiClient,
+  StoredArticle,
+} from '../repositories/articles-api-client.js';
+import { ConfigRepository } from '../repositories/config-repository.js';
+import { SiteRepository } from '../repositories/site-repository.js';
+import { Site } from '../models/schemas.js';
+import { buildSearchDocument, fetchArticleContent } from './rss-scraper.js';
+import { appConfig } from '../utils/config.js';
+import { extractPlainText } from '../utils/fingerprint.js';
+import { Semaphore } from '../utils/concurrency.js';
+import { logError, logInfo, logSuccess, logWarn } from '../utils/logger.js';
+
+export type OrphanAction = 'delete' | 'quarantine';
+
+export interface ReconcileOptions {
+  dryRun?: boolean;
+  orphanAction?: OrphanAction;
+  // Upper bound on re-fetched articles per run
+  maxRefetch?: number;
+}
+
+export interface ReconcileReport {
+  dryRun: boolean;
+  orphanAction: OrphanAction;
+  supabaseCount: number;
+  r2Count: number;
+  missingContentIds: number[];
+  orphanIds: number[];
+  refetched: number;
+  refetchFailed: number[];
+  orphansResolved: number;
+}
+
+/**
+ * Rows younger than this may still be waiting for their R2 upload, and
+ * objects younger than this may belong to a row inserted after the rows
+ * were read
+ */
+const GRACE_PERIOD_MS = 30 * 60 * 1000;
+
+const DEFAULT_MAX_REFETCH = 100;
+
+/**
+ * Compare Supabase and R2 and repair mismatches
+ */
+export async function reconcileArticleContent(
+  options: ReconcileOptions = {}
+): Promise<ReconcileReport> {
+  const { dryRun = false, orphanAction = 'quarantine', maxRefetch = DEFAULT_MAX_REFETCH } = options;
+
+  logInfo(`Reconciling Supabase articles with R2${dryRun ? ' (dry run)' : ''}...`);
+
+  const articleRepo = new ArticleRepository();
+  const articlesApiClient = new ArticlesApiClient();
+
+  const sources = await articleRepo.getAllSources();
+  const stored = await listAllStored(articlesApiClient);
+
+  const rowIds = new Set(sources.map((s) => s.id));
+  const cutoff = Date.now() - GRACE_PERIOD_MS;
+
+  const missing = sources.filter(
+    (s) => !stored.has(s.id) && new Date(s.created_at).getTime() < cutoff
+  );
+  const orphanIds = [...stored.values()]
+    .filter((a) => !rowIds.has(a.articleId) && new Date(a.uploaded).getTime() < cutoff)
+    .map((a) => a.articleId)
+    .sort((a, b) => a - b);
+
+  const report: ReconcileReport = {
+    dryRun,
+    orphanAction,
+    supabaseCount: sources.length,
+    r2Count: stored.size,
+    missingContentIds: missing.map((s) => s.id),
+    orphanIds,
+    refetched: 0,
+    refetchFailed: [],
+    orphansResolved: 0,
+  };
+
+  logInfo(
+    `Supabase rows: ${sources.length}, R2 objects: ${stored.size}, ` +
+      `missing content: ${missing.length}, orphans: ${orphanIds.length}`
+  );
+
+  if (dryRun) {
+    logReconcileSummary(report);
+    return report;
+  }
+
+  if (missing.length > 0) {
+    const toRefetch = missing.slice(0, maxRefetch);
+    if (missing.length > toRefetch.length) {
+      logWarn(`Re-fetching ${toRefetch.length} of ${missing.length} articles (maxRefetch)`);
+    }
+
+    const refetchResult = await refetchMissingContent(toRefetch, articlesApiClient);
+    await articleRepo.updateContentStatus(refetchResult.savedIds, 'ok');
+    report.refetched = refetchResult.savedIds.length;
+    report.refetchFailed = refetchResult.failedIds;
+  }
+
+  if (orphanIds.length > 0) {
+    const results =
+      orphanAction === 'delete'
+        ? await articlesApiClient.deleteArticleContents(orphanIds)
+        : await articlesApiClient.quarantineArticleContents(orphanIds);
+    report.orphansResolved = results.filter((r) => r.success).length;
+  }
+
+  logReconcileSummary(report);
+  return report;
+}
+
+/**
+ * Page through the worker listing and collect every stored article by ID
+ * Throws if a page fails, since a partial listing would make rows look
+ * like they are missing content.
+ */
+async function listAllStored(
+  articlesApiClient: ArticlesApiClient
+): Promise<Map<number, StoredArticle>> {
+  const stored = new Map<number, StoredArticle>();
+  let cursor: string | null = null;
+
+  do {
+    const page = await articlesApiClient.listArticles(cursor);
+    if (!page) {
+      throw new Error('Failed to list articles in R2');
+    }
+    page.articles.forEach((a) => stored.set(a.articleId, a));
+    cursor = page.cursor;
+  } while (cursor);
+
+  return stored;
+}
+
+/**
+ * Re-fetch and re-process articles whose HTML is missing, then upload it
+ */
+async function refetchMissingContent(
+  articles: ArticleSource[],
+  articlesApiClient: ArticlesApiClient
+): Promise<{ savedIds: number[]; failedIds: number[] }> {
+  const siteRepo = new SiteRepository();
+  const configRepo = new ConfigRepository();
+
+  const [sites, allowedHosts, generalRemoveTags] = await Promise.all([
+    siteRepo.getAll(),
+    configRepo.getAllowedHosts(),
+    configRepo.getGeneralRemoveTags(),
+  ]);
+  const sitesById = new Map<number, Site>(sites.map((site) => [site.id, site]));
+
+  const semaphore = new Semaphore(appConfig.scrapeConcurrency);
+  const failedIds: number[] = [];
+
+  const fetched = await Promise.all(
+    articles.map((article) =>
+      semaphore.execute(async (): Promise<ArticleContentItem | null> => {
+        const site = sitesById.get(article.site_id);
+        if (!site) {
+          logWarn(`Site ${article.site_id} not found for article ${article.id}`);
+          failedIds.push(article.id);
+          return null;
+        }
+
+        try {
+          const result = await fetchArticleContent(
+            article.url,
+            site,
+            generalRemoveTags,
+            allowedHosts
+          );
+          if (!result) {
+            failedIds.push(article.id);
+            return null;
+          }
+          return {
+            articleId: article.id,
+            content: result.content,
+            rawHtml: result.rawHtml,
+            sourceUrl: article.url,
+            search: buildSearchDocument(article, site, extractPlainText(result.content)),
+          };
+        } catch (error) {
+          logError(`Failed to re-fetch article ${article.id} (${article.url})`, error);
+          failedIds.push(article.id);
+          return null;
+        }
+      })
+    )
+  );
+
+  const items = fetched.filter((item): item is ArticleContentItem => !!item);
+  const results = await articlesApiClient.saveArticleContents(items);
+  results.filter((r) => !r.success).forEach((r) => failedIds.push(r.articleId));
+
+  return {
+    savedIds: results.filter((r) => r.success).map((r) => r.articleId),
+    failedIds: failedIds.sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Log the outcome of a reconciliation run
+ */
+function logReconcileSummary(report: ReconcileReport): void {
+  const prefix = report.dryRun ? '[DRY RUN] ' : '';
+
+  logInfo('--- Reconciliation Summary ---');
+  logInfo(`${prefix}Missing content: ${report.missingContentIds.length}`);
+  if (report.missingContentIds.length > 0) {
+    logInfo(`  IDs: ${report.missingContentIds.join(', ')}`);
+  }
+  logInfo(`${prefix}Orphan objects: ${report.orphanIds.length}`);
+  if (report.orphanIds.length > 0) {
+    logInfo(`  IDs: ${report.orphanIds.join(', ')}`);
+  }
+
+  if (!report.dryRun) {
+    logSuccess(`Re-fetched ${report.refetched}/${report.missingContentIds.length} articles.`);
+    if (report.refetchFailed.length > 0) {
+      logError(`Failed to re-fetch: ${report.refetchFailed.join(', ')}`);
+    }
+    const verb = report.orphanAction === 'delete' ? 'Deleted' : 'Quarantined';
+    logSuccess(`${verb} ${report.orphansResolved}/${report.orphanIds.length} orphan objects.`);
+  }
+  logInfo('------------------------------');
+}
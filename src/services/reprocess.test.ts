@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './reprocess.js';
+
+describe('diffLines', () => {
+  it('finds nothing between equal documents', () => {
+    const html = '<div>\n  <p>a</p>\n</div>';
+    expect(diffLines(html, html)).toEqual({ added: [], removed: [] });
+  });
+
+  it('lists added and removed lines', () => {
+    const oldHtml = '<div>\n<p>a</p>\n<p>b</p>\n</div>';
+    const newHtml = '<div>\n<p>a</p>\n<p>c</p>\n</div>';
+
+    expect(diffLines(oldHtml, newHtml)).toEqual({ added: ['<p>c</p>'], removed: ['<p>b</p>'] });
+  });
+
+  it('ignores indentation and blank lines', () => {
+    const oldHtml = '<div>\n    <p>a</p>\n</div>';
+    const newHtml = '<div>\n\n  <p>a</p>\n\n</div>';
+
+    expect(diffLines(oldHtml, newHtml)).toEqual({ added: [], removed: [] });
+  });
+
+  it('ignores moved lines', () => {
+    expect(diffLines('<p>a</p>\n<p>b</p>', '<p>b</p>\n<p>a</p>')).toEqual({
+      added: [],
+      removed: [],
+    });
+  });
+
+  it('counts repeated lines', () => {
+    const oldHtml = '<br>\n<p>a</p>\n<br>';
+    const newHtml = '<br>\n<p>a</p>\n<br>\n<br>';
+
+    expect(diffLines(oldHtml, newHtml)).toEqual({ added: ['<br>'], removed: [] });
+    expect(diffLines(newHtml, oldHtml)).toEqual({ added: [], removed: ['<br>'] });
+  });
+
+  it('treats an empty document as all lines added', () => {
+    expect(diffLines('', '<p>a</p>\n<p>b</p>')).toEqual({
+      added: ['<p>a</p>', '<p>b</p>'],
+      removed: [],
+    });
+  });
+});
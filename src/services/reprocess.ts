@@ -0,0 +1,360 @@
+/**
+ * Re-process stored articles with the current HTML pipeline
+ *
+ * Each article's raw HTML snapshot (or, without one, its page fetched again)
+ * is run through processArticleHtml with the site's current options and
+ * stored in R2 as a new content version, so a bad run can be rolled back
+ * with ArticlesApiClient.restoreArticleVersion.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { writeFileSync } from 'node:fs';
+import {
+  ArticleRepository,
+  ArticleSource,
+  ArticleSourceFilter,
+} from '../repositories/article-repository.js';
+import { ArticlesApiClient } from '../repositories/articles-api-client.js';
+import { ConfigRepository } from '../repositories/config-repository.js';
+import { SiteRepository } from '../repositories/site-repository.js';
+import { Site } from '../models/schemas.js';
+import { buildSearchDocument, fetchArticleContent, processFetchedHtml } from './rss-scraper.js';
+import { computeArticleFingerprint } from './duplicate-detector.js';
+import { extractPlainText } from '../utils/fingerprint.js';
+import { Semaphore } from '../utils/concurrency.js';
+import { logError, logInfo, logSuccess, logWarn } from '../utils/logger.js';
+
+/**
+ * Where the raw HTML comes from
+ * - snapshot: the stored raw snapshot only, no network access; paginated
+ *   articles fail, as only their first page is stored
+ * - fetch: the live page
+ * - auto: the snapshot if one is stored, otherwise the live page; later pages
+ *   of paginated articles are fetched live either way
+ */
+export type ReprocessSource = 'snapshot' | 'fetch' | 'auto';
+
+export interface ReprocessOptions {
+  filter: ArticleSourceFilter;
+  concurrency: number;
+  source?: ReprocessSource;
+  dryRun?: boolean;
+  // Print changed lines for each article in dry-run mode
+  showDiff?: boolean;
+  limit?: number;
+  // Skip articles recorded as done in this file and record progress to it
+  progressFile?: string;
+}
+
+export type ReprocessStatus = 'updated' | 'unchanged' | 'would_update' | 'failed';
+
+export interface ReprocessResult {
+  articleId: number;
+  status: ReprocessStatus;
+  source?: 'snapshot' | 'fetch';
+  error?: string;
+  linesAdded?: number;
+  linesRemoved?: number;
+}
+
+export interface ReprocessReport {
+  dryRun: boolean;
+  selected: number;
+  skipped: number;
+  results: ReprocessResult[];
+}
+
+interface ProgressState {
+  filter: ArticleSourceFilter;
+  done: number[];
+}
+
+/**
+ * Changed lines printed per article in diff mode
+ */
+const MAX_DIFF_LINES = 20;
+
+/**
+ * Re-process the articles matching the filter
+ */
+export async function reprocessArticles(options: ReprocessOptions): Promise<ReprocessReport> {
+  const {
+    filter,
+    concurrency,
+    source: htmlSource = 'auto',
+    dryRun = false,
+    showDiff = false,
+    limit,
+    progressFile,
+  } = options;
+
+  const articleRepo = new ArticleRepository();
+  const siteRepo = new SiteRepository();
+  const configRepo = new ConfigRepository();
+  const articlesApiClient = new ArticlesApiClient();
+
+  const [sources, sites, allowedHosts, generalRemoveTags] = await Promise.all([
+    articleRepo.findSources(filter),
+    siteRepo.getAll(),
+    configRepo.getAllowedHosts(),
+    configRepo.getGeneralRemoveTags(),
+  ]);
+  const sitesById = new Map<number, Site>(sites.map((site) => [site.id, site]));
+
+  const progress = progressFile ? await loadProgress(progressFile, filter) : null;
+  const done = new Set(progress?.done ?? []);
+
+  const pending = sources.filter((s) => !done.has(s.id)).slice(0, limit);
+  logInfo(
+    `Selected ${sources.length} articles, ${sources.length - pending.length} skipped, ` +
+      `re-processing ${pending.length}${dryRun ? ' (dry run)' : ''} from ${htmlSource} ` +
+      `with concurrency ${concurrency}`
+  );
+
+  const semaphore = new Semaphore(concurrency);
+  const results = await Promise.all(
+    pending.map((source) =>
+      semaphore.execute(async () => {
+        const result = await reprocessOne(source, {
+          site: sitesById.get(source.site_id),
+          generalRemoveTags,
+          allowedHosts,
+          articleRepo,
+          articlesApiClient,
+          source: htmlSource,
+          dryRun,
+          showDiff,
+        });
+        logResult(result);
+
+        // Dry runs don't change anything, so they are never recorded as done
+        if (progress && progressFile && !dryRun && result.status !== 'failed') {
+          progress.done.push(source.id);
+          saveProgress(progressFile, progress);
+        }
+        return result;
+      })
+    )
+  );
+
+  const report: ReprocessReport = {
+    dryRun,
+    selected: sources.length,
+    skipped: sources.length - pending.length,
+    results,
+  };
+  logReprocessSummary(report);
+  return report;
+}
+
+interface ReprocessContext {
+  site: Site | undefined;
+  generalRemoveTags: string[];
+  allowedHosts: Set<string>;
+  articleRepo: ArticleRepository;
+  articlesApiClient: ArticlesApiClient;
+  source: ReprocessSource;
+  dryRun: boolean;
+  showDiff: boolean;
+}
+
+interface LoadedContent {
+  source: 'snapshot' | 'fetch';
+  content: string;
+  // Set when the page was fetched, so the new snapshot can be stored
+  rawHtml?: string;
+}
+
+async function reprocessOne(
+  source: ArticleSource,
+  context: ReprocessContext
+): Promise<ReprocessResult> {
+  const { site, articleRepo, articlesApiClient, dryRun, showDiff } = context;
+  const articleId = source.id;
+
+  if (!site) {
+    return { articleId, status: 'failed', error: `Site ${source.site_id} not found` };
+  }
+
+  try {
+    const loaded = await loadContent(source, site, context);
+    if (typeof loaded === 'string') {
+      return { articleId, status: 'failed', error: loaded };
+    }
+
+    const current = await articlesApiClient.getArticleContent(articleId);
+    if (current === loaded.content) {
+      return { articleId, status: 'unchanged', source: loaded.source };
+    }
+
+    const diff = diffLines(current ?? '', loaded.content);
+
+    if (dryRun) {
+      if (showDiff) printDiff(articleId, diff);
+      return {
+        articleId,
+        status: 'would_update',
+        source: loaded.source,
+        linesAdded: diff.added.length,
+        linesRemoved: diff.removed.length,
+      };
+    }
+
+    const [saved] = await articlesApiClient.saveArticleContents([
+      {
+        articleId,
+        content: loaded.content,
+        rawHtml: loaded.rawHtml,
+        sourceUrl: source.url,
+        search: buildSearchDocument(source, site, extractPlainText(loaded.content)),
+      },
+    ]);
+    if (!saved?.success) {
+      return { articleId, status: 'failed', error: 'Failed to save content to R2' };
+    }
+
+    await articleRepo.updateProcessedFields(articleId, {
+      fingerprint: computeArticleFingerprint(loaded.content),
+      content_status: 'ok',
+    });
+
+    return {
+      articleId,
+      status: 'updated',
+      source: loaded.source,
+      linesAdded: diff.added.length,
+      linesRemoved: diff.removed.length,
+    };
+  } catch (error) {
+    logError(`Failed to re-process article ${articleId} (${source.url})`, error);
+    return {
+      articleId,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Produce new content from the raw snapshot or the live page
+ * @returns The content, or an error message
+ */
+async function loadContent(
+  source: ArticleSource,
+  site: Site,
+  context: ReprocessContext
+): Promise<LoadedContent | string> {
+  const { generalRemoveTags, allowedHosts, articlesApiClient } = context;
+
+  if (context.source !== 'fetch') {
+    const snapshot = await articlesApiClient.getRawSnapshot(source.id);
+    if (snapshot) {
+      const content = await processFetchedHtml(
+        snapshot.html,
+        source.url,
+        site,
+        generalRemoveTags,
+        allowedHosts,
+        // Only the first page is stored, so later pages would have to be fetched
+        { fetchPages: context.source !== 'snapshot' }
+      );
+      return content ? { source: 'snapshot', content } : 'Failed to process raw snapshot';
+    }
+    if (context.source === 'snapshot') {
+      return 'No raw snapshot stored';
+    }
+  }
+
+  const fetched = await fetchArticleContent(source.url, site, generalRemoveTags, allowedHosts);
+  if (!fetched) {
+    return 'Failed to fetch or process page';
+  }
+  return { source: 'fetch', content: fetched.content, rawHtml: fetched.rawHtml };
+}
+
+/**
+ * Lines only in the old or only in the new HTML
+ * processArticleHtml beautifies its output, so lines are stable units.
+ */
+export function diffLines(oldHtml: string, newHtml: string): { added: string[]; removed: string[] } {
+  const count = (lines: string[]) => {
+    const counts = new Map<string, number>();
+    lines.forEach((line) => counts.set(line, (counts.get(line) ?? 0) + 1));
+    return counts;
+  };
+
+  const oldLines = oldHtml.split('\n').map((l) => l.trim());
+  const newLines = newHtml.split('\n').map((l) => l.trim());
+  const oldCounts = count(oldLines);
+  const newCounts = count(newLines);
+
+  const onlyIn = (lines: string[], own: Map<string, number>, other: Map<string, number>) =>
+    lines.filter((line) => {
+      const remaining = own.get(line) ?? 0;
+      own.set(line, remaining - 1);
+      return line !== '' && remaining > (other.get(line) ?? 0);
+    });
+
+  return {
+    removed: onlyIn(oldLines, new Map(oldCounts), newCounts),
+    added: onlyIn(newLines, new Map(newCounts), oldCounts),
+  };
+}
+
+function printDiff(articleId: number, diff: { added: string[]; removed: string[] }): void {
+  logInfo(`--- Article ${articleId}: -${diff.removed.length} +${diff.added.length} lines ---`);
+  diff.removed.slice(0, MAX_DIFF_LINES).forEach((line) => logInfo(`- ${line}`));
+  diff.added.slice(0, MAX_DIFF_LINES).forEach((line) => logInfo(`+ ${line}`));
+}
+
+/**
+ * Load progress for the same filter, or start fresh
+ */
+async function loadProgress(path: string, filter: ArticleSourceFilter): Promise<ProgressState> {
+  try {
+    const saved: ProgressState = JSON.parse(await readFile(path, 'utf-8'));
+    if (JSON.stringify(saved.filter) === JSON.stringify(filter)) {
+      logInfo(`Resuming from ${path}: ${saved.done.length} articles already done`);
+      return saved;
+    }
+    logWarn(`${path} was written for a different selection, starting over`);
+  } catch {
+    // No progress yet
+  }
+  return { filter, done: [] };
+}
+
+/**
+ * Written synchronously so concurrent tasks never interleave writes
+ */
+function saveProgress(path: string, progress: ProgressState): void {
+  writeFileSync(path, JSON.stringify(progress));
+}
+
+function logResult(result: ReprocessResult): void {
+  if (result.status === 'failed') {
+    logError(`Article ${result.articleId}: failed (${result.error})`);
+  } else {
+    logInfo(`Article ${result.articleId}: ${result.status} (from ${result.source})`);
+  }
+}
+
+function logReprocessSummary(report: ReprocessReport): void {
+  const countOf = (status: ReprocessStatus) =>
+    report.results.filter((r) => r.status === status).length;
+
+  logInfo('--- Reprocess Summary ---');
+  logInfo(`Selected: ${report.selected}, skipped (already done): ${report.skipped}`);
+  if (report.dryRun) {
+    logInfo(`[DRY RUN] Would update: ${countOf('would_update')}`);
+  } else {
+    logSuccess(`Updated: ${countOf('updated')}`);
+  }
+  logInfo(`Unchanged: ${countOf('unchanged')}`);
+
+  const failed = report.results.filter((r) => r.status === 'failed');
+  if (failed.length > 0) {
+    logError(`Failed: ${failed.length} (${failed.map((r) => r.articleId).join(', ')})`);
+  }
+  logInfo('-------------------------');
+}
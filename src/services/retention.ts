@@ -0,0 +1,123 @@
+/**
+ * Retention policy planning
+ *
+ * Rules are applied in the order below. Each article is attributed to the
+ * first rule that selected it, so the report shows why it was pruned.
+ * 1. Per-site max age (scrape_options.retention.max_age_days)
+ * 2. Per-site max count (scrape_options.retention.max_articles)
+ * 3. Per-category max count (category.max_articles)
+ * 4. Global max count (MAX_ARTICLES)
+ */
+
+import { ArticleRef, ArticleRepository } from '../repositories/article-repository.js';
+import { Category, Site } from '../models/schemas.js';
+import { logInfo } from '../utils/logger.js';
+
+export type RetentionRule =
+  | 'site_max_age'
+  | 'site_max_articles'
+  | 'category_max_articles'
+  | 'global_max_articles';
+
+export interface PruneDecision {
+  articleId: number;
+  siteId: number | null;
+  rule: RetentionRule;
+}
+
+interface RetentionPlanInput {
+  sites: Site[];
+  categories: Category[];
+  protectedIds: Set<number>;
+  totalCount: number;
+  maxArticles: number;
+}
+
+/**
+ * Rows fetched beyond a keep limit per query; anything left over is
+ * picked up by the next run.
+ */
+const FETCH_WINDOW = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toSelection = (ref: ArticleRef) => ({ id: ref.id, siteId: ref.site_id });
+
+/**
+ * Work out which articles should be deleted and by which rule
+ */
+export async function planRetention(
+  articleRepo: ArticleRepository,
+  input: RetentionPlanInput
+): Promise<PruneDecision[]> {
+  const { sites, categories, protectedIds, totalCount, maxArticles } = input;
+  const decisions = new Map<number, PruneDecision>();
+
+  const select = (refs: Array<{ id: number; siteId: number | null }>, rule: RetentionRule) => {
+    for (const ref of refs) {
+      if (decisions.has(ref.id) || protectedIds.has(ref.id)) continue;
+      decisions.set(ref.id, { articleId: ref.id, siteId: ref.siteId, rule });
+    }
+  };
+
+  // Keep the newest `keep` articles that are not already being deleted
+  const selectBeyond = (refs: ArticleRef[], keep: number, rule: RetentionRule) => {
+    const remaining = refs.filter((ref) => !decisions.has(ref.id));
+    select(remaining.slice(keep).map(toSelection), rule);
+  };
+
+  for (const site of sites) {
+    const policy = site.scrape_options?.retention;
+    if (!policy) continue;
+
+    if (policy.max_age_days) {
+      const cutoff = new Date(Date.now() - policy.max_age_days * DAY_MS).toISOString();
+      const refs = await articleRepo.fetchIdsPublishedBefore(site.id, cutoff, FETCH_WINDOW);
+      select(refs.map(toSelection), 'site_max_age');
+    }
+
+    if (policy.max_articles) {
+      const refs = await articleRepo.fetchNewestIds(policy.max_articles + FETCH_WINDOW, [site.id]);
+      selectBeyond(refs, policy.max_articles, 'site_max_articles');
+    }
+  }
+
+  for (const category of categories) {
+    if (!category.max_articles) continue;
+
+    const siteIds = sites.filter((s) => s.category === category.id).map((s) => s.id);
+    if (siteIds.length === 0) continue;
+
+    const refs = await articleRepo.fetchNewestIds(category.max_articles + FETCH_WINDOW, siteIds);
+    selectBeyond(refs, category.max_articles, 'category_max_articles');
+  }
+
+  const remainingCount = totalCount - decisions.size;
+  if (remainingCount > maxArticles) {
+    const excess = remainingCount - maxArticles;
+    logInfo(`Article count (${remainingCount}) exceeds global limit (${maxArticles}).`);
+
+    const oldestIds = await articleRepo.fetchOldestIds(excess + decisions.size);
+    const refs = oldestIds
+      .filter((id) => !decisions.has(id))
+      .slice(0, excess)
+      .map((id) => ({ id, siteId: null }));
+    select(refs, 'global_max_articles');
+  }
+
+  return Array.from(decisions.values());
+}
+
+/**
+ * Count decisions per rule
+ */
+export function countByRule(decisions: PruneDecision[]): Record<RetentionRule, number> {
+  const counts: Record<RetentionRule, number> = {
+    site_max_age: 0,
+    site_max_articles: 0,
+    category_max_articles: 0,
+    global_max_articles: 0,
+  };
+  decisions.forEach((d) => counts[d.rule]++);
+  return counts;
+}
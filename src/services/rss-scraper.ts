@@ -3,22 +3,47 @@
  */
 
 import Parser from 'rss-parser';
-import { Site, Article } from '../models/schemas.js';
+import { createHash } from 'node:crypto';
+import { Site, Article, FeedCache } from '../models/schemas.js';
 import { ArticleRepository } from '../repositories/article-repository.js';
-import { ArticlesApiClient } from '../repositories/articles-api-client.js';
-import { smartFetchHtml } from '../utils/smart-http-client.js';
-import { processArticleHtml } from './html-processor.js';
-import { logInfo, logWarn, logError, logSuccess } from '../utils/logger.js';
+import { ArticlesApiClient, SearchDocument } from '../repositories/articles-api-client.js';
+import { FilteredItem, FilteredItemRepository } from '../repositories/filtered-item-repository.js';
+import {
+  FetchStrategy,
+  smartFetch,
+  smartFetchHtml,
+  SmartFetchOptions,
+} from '../utils/smart-http-client.js';
+import { processArticleHtml, ProcessArticleOptions } from './html-processor.js';
+import { computeArticleFingerprint, DuplicateDetector } from './duplicate-detector.js';
+import { UploadOutbox } from './upload-outbox.js';
+import { resolveThumbnail } from './thumbnail-resolver.js';
+import { FeedFilter, feedItemFields } from './feed-filter.js';
+import {
+  canonicalizeUrl,
+  DEFAULT_ALLOWED_QUERY_PARAMS,
+  resolveCanonicalLink,
+  urlVariants,
+} from '../utils/url-canonicalizer.js';
+import { extractPlainText } from '../utils/fingerprint.js';
+import { DEFAULT_HOST_LIMITS, HostLimits, hostRateLimiter } from '../utils/host-rate-limiter.js';
+import { Semaphore } from '../utils/concurrency.js';
+import { appConfig } from '../utils/config.js';
+import { logInfo, logWarn, logError, logSuccess, logDebug } from '../utils/logger.js';
 import * as cheerio from 'cheerio';
 
+const FEED_REQUEST_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+  Accept: 'application/rss+xml,application/xml,application/atom+xml,text/xml,*/*',
+  'Accept-Language': 'ja-JP,ja;q=0.9,en-US;q=0.8,en;q=0.7',
+};
+
+const FEED_TIMEOUT_MS = 30000;
+
 const rssParser = new Parser({
-  timeout: 30000,
-  headers: {
-    'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
-    Accept: 'application/rss+xml,application/xml,application/atom+xml,text/xml,*/*',
-    'Accept-Language': 'ja-JP,ja;q=0.9,en-US;q=0.8,en;q=0.7',
-    'Cache-Control': 'no-cache',
-  },
+  timeout: FEED_TIMEOUT_MS,
+  headers: FEED_REQUEST_HEADERS,
   customFields: {
     item: [
       ['media:thumbnail', 'media:thumbnail'],
@@ -27,6 +52,59 @@ const rssParser = new Parser({
   },
 });
 
+/**
+ * Result of fetching a feed with conditional GET
+ * - not_modified: server answered 304
+ * - unchanged: body hash matches the last processed feed
+ */
+export type FeedFetchResult =
+  | { status: 'not_modified' }
+  | { status: 'unchanged'; cache: FeedCache }
+  | { status: 'ok'; feed: Parser.Output<unknown>; cache: FeedCache }
+  | { status: 'failed'; error: unknown };
+
+export interface ScrapeSiteResult {
+  insertedCount: number;
+  totalArticles: number;
+  // Set when the feed cache should be persisted for the next run
+  feedCache?: FeedCache;
+  // Set when the feed was not re-read (304 or identical body)
+  feedUnchanged?: boolean;
+  // Articles that would have been inserted (dry run only)
+  articles?: Partial<Article>[];
+  // Articles that could not be fetched or processed
+  failedCount?: number;
+  // New feed items skipped by filter rules
+  filteredCount?: number;
+  // Articles fetched with each strategy
+  fetchStrategies?: Partial<Record<FetchStrategy, number>>;
+  uploadedCount?: number;
+  uploadFailedCount?: number;
+  // Articles inserted into Supabase
+  insertedArticles?: Article[];
+}
+
+/**
+ * A processed article with the raw page it was built from
+ */
+export interface ProcessedArticle {
+  article: Article;
+  rawHtml: string;
+  // Plain text of the processed content
+  text: string;
+  strategy: FetchStrategy;
+}
+
+export interface ScrapeSiteOptions {
+  duplicateDetector?: DuplicateDetector;
+  uploadOutbox?: UploadOutbox;
+  // Read the feed (ignoring its cache) and process articles without writing
+  // to Supabase or R2
+  dryRun?: boolean;
+  // Articles of this site fetched at once (default: ARTICLE_CONCURRENCY)
+  articleConcurrency?: number;
+}
+
 /**
  * Scrape a single site
  */
@@ -34,46 +112,179 @@ export async function scrapeSite(
   site: Site,
   generalRemoveTags: string[],
   allowedHosts: Set<string>,
-  articleRepo: ArticleRepository // This is the Supabase repository
-): Promise<{ insertedCount: number; totalArticles: number }> {
+  articleRepo: ArticleRepository, // This is the Supabase repository
+  options: ScrapeSiteOptions = {}
+): Promise<ScrapeSiteResult> {
+  const {
+    duplicateDetector,
+    uploadOutbox,
+    dryRun = false,
+    articleConcurrency = appConfig.articleConcurrency,
+  } = options;
+
   if (!site.rss || !site.domain) {
     logWarn(`[SKIP] RSS or Domain not registered for siteId=${site.id}`);
     return { insertedCount: 0, totalArticles: 0 };
   }
 
-  const feed = await fetchRssFeed(site.rss);
-  if (!feed || !feed.items) {
+  const feedResult = await fetchRssFeed(
+    site.rss,
+    dryRun ? undefined : getFeedCache(site),
+    getSiteFetchOptions(site).hostLimits
+  );
+  if (feedResult.status === 'failed') {
+    throw new Error(`Failed to fetch RSS feed: ${site.rss}`, { cause: feedResult.error });
+  }
+
+  if (feedResult.status === 'not_modified') {
+    logInfo(`Feed not modified (304) for site: ${site.title}`);
+    return { insertedCount: 0, totalArticles: 0, feedUnchanged: true };
+  }
+
+  if (feedResult.status === 'unchanged') {
+    logInfo(`Feed body unchanged for site: ${site.title}`);
+    return {
+      insertedCount: 0,
+      totalArticles: 0,
+      feedCache: feedResult.cache,
+      feedUnchanged: true,
+    };
+  }
+
+  const { feed } = feedResult;
+  if (!feed.items) {
     return { insertedCount: 0, totalArticles: 0 };
   }
 
-  const feedUrls = feed.items
-    .map((item) => item.link?.split('?')[0].trim())
-    .filter((url): url is string => !!url);
+  const allowedQueryParams = getAllowedQueryParams(site);
+  const feedEntries = feed.items
+    .map((item) => ({
+      item,
+      link: item.link ? canonicalizeUrl(item.link, allowedQueryParams) : null,
+    }))
+    .filter((entry): entry is { item: Parser.Item; link: string } => !!entry.link);
 
-  if (feedUrls.length === 0) {
+  if (feedEntries.length === 0) {
     logInfo(`No valid URLs found in RSS feed for site: ${site.title}`);
     return { insertedCount: 0, totalArticles: 0 };
   }
 
-  const existingUrls = await articleRepo.checkExistingUrls(feedUrls);
-  logInfo(`Found ${existingUrls.size} existing articles out of ${feedUrls.length} in feed`);
+  const existingUrls = await findExistingUrls(
+    articleRepo,
+    feedEntries.map((entry) => entry.link)
+  );
+  logInfo(`Found ${existingUrls.size} existing articles out of ${feedEntries.length} in feed`);
+
+  const feedFilter = FeedFilter.forSite(site);
+  // Items dropped by body rules were fetched once; remember them so they aren't fetched again
+  const filteredItemRepo = feedFilter.needsBody ? new FilteredItemRepository() : null;
+  const filteredUrls = filteredItemRepo
+    ? await filteredItemRepo.findFilteredUrls(
+        site.id,
+        feedEntries.map((entry) => entry.link)
+      )
+    : new Set<string>();
+
+  const seenUrls = new Set<string>();
+  let filteredCount = 0;
+  const newEntries = feedEntries.filter(({ item, link }) => {
+    if (existingUrls.has(link) || filteredUrls.has(link) || seenUrls.has(link)) {
+      return false;
+    }
+    seenUrls.add(link);
 
-  const articlesToProcess: Partial<Article>[] = [];
-  for (const item of feed.items) {
-    const link = item.link?.split('?')[0].trim();
-    if (!link || existingUrls.has(link)) {
-      continue;
+    const reason = feedFilter.checkFeedItem(feedItemFields(item, link));
+    if (reason) {
+      logDebug(`Filtered feed item ${link}: ${reason}`);
+      filteredCount++;
+      return false;
     }
+    return true;
+  });
+
+  // Articles are fetched in parallel (per-host limits still apply) and
+  // collected in feed order; a failing article only counts as failed
+  const semaphore = new Semaphore(articleConcurrency);
+  const results = await Promise.all(
+    newEntries.map(({ item, link }) =>
+      semaphore.execute(() =>
+        processSingleArticle(item, link, site, generalRemoveTags, allowedHosts).catch((error) => {
+          logError(`Failed to process article: ${link}`, error);
+          return null;
+        })
+      )
+    )
+  );
 
-    const article = await processSingleArticle(item, link, site, generalRemoveTags, allowedHosts);
-    if (article) {
-      articlesToProcess.push(article);
+  const processedArticles: Partial<Article>[] = [];
+  const processedByUrl = new Map<string, ProcessedArticle>();
+  const fetchStrategies: Partial<Record<FetchStrategy, number>> = {};
+  const bodyFiltered: FilteredItem[] = [];
+  let failedCount = 0;
+  for (const [i, processed] of results.entries()) {
+    if (!processed) {
+      failedCount++;
+      continue;
     }
+    fetchStrategies[processed.strategy] = (fetchStrategies[processed.strategy] ?? 0) + 1;
+
+    if (feedFilter.needsBody) {
+      const { item, link } = newEntries[i];
+      const reason = feedFilter.checkArticle({
+        ...feedItemFields(item, link),
+        body: processed.text,
+      });
+      if (reason) {
+        logDebug(`Filtered article ${link}: ${reason}`);
+        filteredCount++;
+        bodyFiltered.push({ site_id: site.id, url: link, reason });
+        continue;
+      }
+    }
+
+    processedArticles.push(processed.article);
+    processedByUrl.set(processed.article.url, processed);
+  }
+
+  if (filteredCount > 0) {
+    logInfo(`Filtered ${filteredCount} new feed items for site: ${site.title}`);
+  }
+  if (filteredItemRepo && !dryRun) {
+    await filteredItemRepo.saveMany(bodyFiltered);
+  }
+
+  // Keep the old cache when an item failed, so the feed is read again next run
+  const feedCache = failedCount === 0 ? feedResult.cache : undefined;
+
+  const articlesToProcess = await dropDuplicateArticles(
+    processedArticles,
+    site,
+    articleRepo,
+    duplicateDetector
+  );
+
+  if (dryRun) {
+    logInfo(`[DRY RUN] Would insert ${articlesToProcess.length} articles for site: ${site.title}`);
+    return {
+      insertedCount: 0,
+      totalArticles: feed.items.length,
+      articles: articlesToProcess,
+      failedCount,
+      filteredCount,
+      fetchStrategies,
+    };
   }
 
   if (articlesToProcess.length === 0) {
     logInfo(`No new articles to insert for site: ${site.title}`);
-    return { insertedCount: 0, totalArticles: feed.items.length };
+    return {
+      insertedCount: 0,
+      totalArticles: feed.items.length,
+      feedCache,
+      failedCount,
+      filteredCount,
+      fetchStrategies,
+    };
   }
 
   const articlesToInsert = articlesToProcess.map(({ content, ...rest }) => rest);
@@ -85,42 +296,219 @@ export async function scrapeSite(
   logSuccess(`Successfully inserted ${newSupabaseArticles.length} articles into Supabase.`);
 
   if (newSupabaseArticles.length === 0) {
-    return { insertedCount: 0, totalArticles: feed.items.length };
+    return {
+      insertedCount: 0,
+      totalArticles: feed.items.length,
+      feedCache,
+      failedCount,
+      filteredCount,
+      fetchStrategies,
+    };
   }
 
   const articlesApiClient = new ArticlesApiClient();
   logInfo(`Uploading ${newSupabaseArticles.length} article contents to R2...`);
 
-  const r2UploadPromises = newSupabaseArticles.map(async (article) => {
+  const uploadItems = newSupabaseArticles.flatMap((article) => {
     const content = contentsMap.get(article.url);
-    if (article.id && content) {
-      return articlesApiClient.saveArticleContent(article.id, content);
-    }
-    return false;
+    const processed = processedByUrl.get(article.url);
+    return article.id && content
+      ? [
+          {
+            articleId: article.id,
+            content,
+            rawHtml: processed?.rawHtml,
+            sourceUrl: article.url,
+            search: processed && buildSearchDocument(article, site, processed.text),
+          },
+        ]
+      : [];
   });
 
-  const r2Results = await Promise.allSettled(r2UploadPromises);
-  const r2SuccessCount = r2Results.filter(
-    (r) => r.status === 'fulfilled' && r.value === true
-  ).length;
+  const r2Results = await articlesApiClient.saveArticleContents(uploadItems);
+  const r2SuccessCount = r2Results.filter((r) => r.success).length;
   logSuccess(`Successfully uploaded ${r2SuccessCount}/${newSupabaseArticles.length} contents to R2.`);
 
   const r2FailedCount = newSupabaseArticles.length - r2SuccessCount;
   if (r2FailedCount > 0) {
-    logError(`${r2FailedCount} content uploads to R2 failed.`);
+    const failedResults = r2Results.filter((r) => !r.success);
+    logError(
+      `${r2FailedCount} content uploads to R2 failed: ${failedResults.map((r) => r.articleId).join(', ')}`
+    );
+
+    const itemsById = new Map(uploadItems.map((item) => [item.articleId, item]));
+    await uploadOutbox?.enqueue(
+      failedResults.flatMap((r) => {
+        const item = itemsById.get(r.articleId);
+        return item ? [{ ...item, error: r.error }] : [];
+      })
+    );
+
+    // Nothing was processed for these, so there is no upload to retry
+    const attemptedIds = new Set(uploadItems.map((item) => item.articleId));
+    const missingContentIds = newSupabaseArticles
+      .map((article) => article.id)
+      .filter((id): id is number => id !== undefined && !attemptedIds.has(id));
+    if (missingContentIds.length > 0) {
+      logError(`No content to upload for articles: ${missingContentIds.join(', ')}`);
+      await articleRepo.updateContentStatus(missingContentIds, 'failed');
+    }
   }
 
-  return { insertedCount: newSupabaseArticles.length, totalArticles: feed.items.length };
+  return {
+    insertedCount: newSupabaseArticles.length,
+    totalArticles: feed.items.length,
+    feedCache,
+    failedCount,
+    filteredCount,
+    fetchStrategies,
+    uploadedCount: r2SuccessCount,
+    uploadFailedCount: r2FailedCount,
+    insertedArticles: newSupabaseArticles,
+  };
+}
+
+/**
+ * Query parameters to keep when canonicalizing this site's URLs
+ */
+function getAllowedQueryParams(site: Site): string[] {
+  return site.scrape_options?.canonical_query_params ?? DEFAULT_ALLOWED_QUERY_PARAMS;
+}
+
+/**
+ * Check which canonical URLs already exist as an article URL or feed link,
+ * matching http/https and trailing-slash variants of each
+ */
+async function findExistingUrls(
+  articleRepo: ArticleRepository,
+  canonicalUrls: string[]
+): Promise<Set<string>> {
+  const variantsByUrl = new Map(canonicalUrls.map((url) => [url, urlVariants(url)]));
+  const variants = Array.from(variantsByUrl.values()).flat();
+  // A feed link whose page declared another canonical URL is stored as source_url
+  const [existingUrls, existingSourceUrls] = await Promise.all([
+    articleRepo.checkExistingUrls(variants),
+    articleRepo.checkExistingSourceUrls(variants),
+  ]);
+  const existing = new Set([...existingUrls, ...existingSourceUrls]);
+
+  return new Set(
+    canonicalUrls.filter((url) => variantsByUrl.get(url)?.some((v) => existing.has(v)))
+  );
+}
+
+/**
+ * Drop articles that turned out to be duplicates after fetching:
+ * - their <link rel=canonical> URL already exists or repeats within the batch
+ * - their content fingerprint is close to a recent article (any site)
+ */
+async function dropDuplicateArticles(
+  articles: Partial<Article>[],
+  site: Site,
+  articleRepo: ArticleRepository,
+  duplicateDetector?: DuplicateDetector
+): Promise<Partial<Article>[]> {
+  if (articles.length === 0) return [];
+
+  const existingUrls = await findExistingUrls(
+    articleRepo,
+    articles.map((a) => a.url).filter((url): url is string => !!url)
+  );
+
+  const seenUrls = new Set<string>();
+  const unique: Partial<Article>[] = [];
+
+  for (const article of articles) {
+    if (!article.url || existingUrls.has(article.url) || seenUrls.has(article.url)) {
+      logInfo(`[DUPLICATE] Canonical URL already exists: ${article.url}`);
+      continue;
+    }
+    seenUrls.add(article.url);
+
+    if (duplicateDetector && article.fingerprint) {
+      const match = await duplicateDetector.findDuplicate(site.id, article.fingerprint);
+      if (match) {
+        logInfo(
+          `[DUPLICATE] ${article.url} matches article ${match.articleId ?? '(this run)'} of site ${match.siteId} (distance ${match.distance})`
+        );
+        continue;
+      }
+      duplicateDetector.register(site.id, article.fingerprint);
+    }
+
+    unique.push(article);
+  }
+
+  return unique;
+}
+
+/**
+ * Feed cache values stored on the site row
+ */
+function getFeedCache(site: Site): FeedCache {
+  return {
+    etag: site.feed_etag ?? null,
+    lastModified: site.feed_last_modified ?? null,
+    hash: site.feed_hash ?? null,
+  };
+}
+
+function hashFeedBody(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
 }
 
 /**
- * Fetch RSS feed
+ * Fetch RSS feed with conditional GET (If-None-Match / If-Modified-Since)
+ * The request shares the host's rate limits with article fetches.
  */
-export async function fetchRssFeed(rssUrl: string): Promise<Parser.Output<unknown> | null> {
+export async function fetchRssFeed(
+  rssUrl: string,
+  cache: FeedCache = { etag: null, lastModified: null, hash: null },
+  hostLimits: Partial<HostLimits> = {}
+): Promise<FeedFetchResult> {
+  const limits: HostLimits = {
+    concurrency: hostLimits.concurrency ?? DEFAULT_HOST_LIMITS.concurrency,
+    minDelayMs: hostLimits.minDelayMs ?? DEFAULT_HOST_LIMITS.minDelayMs,
+  };
+
   try {
-    // Try direct parsing first
-    const feed = await rssParser.parseURL(rssUrl);
-    return feed;
+    const headers: Record<string, string> = { ...FEED_REQUEST_HEADERS };
+    if (cache.etag) headers['If-None-Match'] = cache.etag;
+    if (cache.lastModified) headers['If-Modified-Since'] = cache.lastModified;
+
+    const { response, xml } = await hostRateLimiter.schedule(rssUrl, limits, async () => {
+      const res = await fetch(rssUrl, {
+        headers,
+        redirect: 'follow',
+        signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+      });
+      // Read the body while holding the host's slot
+      return { response: res, xml: res.ok ? await res.text() : '' };
+    });
+
+    if (response.status === 304) {
+      return { status: 'not_modified' };
+    }
+
+    if (!response.ok) {
+      if (response.status === 429 || response.status === 503) {
+        hostRateLimiter.deferHost(rssUrl, response.headers.get('retry-after'));
+      }
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const newCache: FeedCache = {
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+      hash: hashFeedBody(xml),
+    };
+
+    if (cache.hash && cache.hash === newCache.hash) {
+      return { status: 'unchanged', cache: newCache };
+    }
+
+    const feed = await rssParser.parseString(xml);
+    return { status: 'ok', feed, cache: newCache };
   } catch (error) {
     logWarn(`Direct RSS fetch failed for ${rssUrl}, trying with crawlee...`, error);
 
@@ -129,150 +517,175 @@ export async function fetchRssFeed(rssUrl: string): Promise<Parser.Output<unknow
       const xml = await smartFetchHtml(rssUrl, { strategy: 'crawlee', timeout: 30000 });
       if (!xml) {
         logError(`Failed to fetch RSS XML via crawlee: ${rssUrl}`);
-        return null;
+        return { status: 'failed', error };
+      }
+
+      const newCache: FeedCache = { etag: null, lastModified: null, hash: hashFeedBody(xml) };
+      if (cache.hash && cache.hash === newCache.hash) {
+        return { status: 'unchanged', cache: newCache };
       }
 
       const feed = await rssParser.parseString(xml);
       logInfo(`Successfully fetched RSS via crawlee: ${rssUrl}`);
-      return feed;
+      return { status: 'ok', feed, cache: newCache };
     } catch (fallbackError) {
       logError(`Failed to fetch RSS (all methods): ${rssUrl}`, fallbackError);
-      return null;
+      return { status: 'failed', error: fallbackError };
     }
   }
 }
 
 /**
- * Process a single article from RSS feed
+ * Build fetch options for a site from its scrape_options
  */
-export async function processSingleArticle(
-  item: Parser.Item,
+export function getSiteFetchOptions(site: Site): SmartFetchOptions {
+  const options = site.scrape_options;
+  return {
+    strategy: options?.fetch_strategy ?? 'crawlee',
+    userAgent: 'mobile',
+    timeout: options?.fetch_timeout_ms ?? 30000,
+    maxRetries: options?.fetch_max_retries ?? 3,
+    hostLimits: {
+      concurrency: options?.rate_limit?.concurrency,
+      minDelayMs: options?.rate_limit?.min_delay_ms,
+    },
+    respectRobotsTxt: options?.rate_limit?.respect_robots_txt ?? false,
+  };
+}
+
+/**
+ * Build processArticleHtml options for a site from its scrape_options
+ */
+export function getSiteProcessOptions(site: Site): ProcessArticleOptions {
+  const options = site.scrape_options;
+  const pagination = options?.pagination;
+
+  return {
+    extractionMode: options?.extraction_mode,
+    contentSelector: options?.content_selector,
+    formatRules: options?.format_rules,
+    pagination: pagination && {
+      nextSelector: pagination.next_selector,
+      contentSelector: pagination.content_selector,
+      maxPages: pagination.max_pages,
+    },
+    fetchOptions: getSiteFetchOptions(site),
+  };
+}
+
+/**
+ * Fetch an article page and run it through the HTML pipeline with the
+ * site's options
+ * @returns The raw page and processed content, or null on failure
+ */
+export async function fetchArticleContent(
   link: string,
   site: Site,
   generalRemoveTags: string[],
   allowedHosts: Set<string>
-): Promise<Article | null> {
-  // Get fetch strategy from site options, default to 'crawlee'
-  const fetchStrategy = 'crawlee';
-
-  const mobileHtml = await smartFetchHtml(link, {
-    strategy: fetchStrategy,
-    userAgent: 'mobile',
-    timeout: 30000,
-    maxRetries: 3,
-  });
+): Promise<{ rawHtml: string; content: string; strategy: FetchStrategy } | null> {
+  const fetched = await smartFetch(link, getSiteFetchOptions(site));
 
-  if (!mobileHtml) {
+  if (!fetched) {
     return null;
   }
 
+  const rawHtml = fetched.html;
+  const content = await processFetchedHtml(rawHtml, link, site, generalRemoveTags, allowedHosts);
+  return content ? { rawHtml, content, strategy: fetched.strategy } : null;
+}
+
+/**
+ * Run already fetched HTML (e.g. a raw snapshot) through the HTML pipeline
+ * with the site's options
+ * @param overrides - Options applied on top of the site's options
+ * @returns The processed content, or null on failure
+ */
+export async function processFetchedHtml(
+  rawHtml: string,
+  link: string,
+  site: Site,
+  generalRemoveTags: string[],
+  allowedHosts: Set<string>,
+  overrides: ProcessArticleOptions = {}
+): Promise<string | null> {
   const removeSelectorTags = site.scrape_options?.remove_selector_tags || [];
   const finalRemoveSelectors = Array.from(new Set([...generalRemoveTags, ...removeSelectorTags]));
 
-  const content = await processArticleHtml(
-    mobileHtml,
-    link,
-    finalRemoveSelectors,
-    allowedHosts
-  );
+  const content = await processArticleHtml(rawHtml, link, finalRemoveSelectors, allowedHosts, {
+    ...getSiteProcessOptions(site),
+    ...overrides,
+  });
 
   if (!content) {
     logError(`Failed to extract content for: ${link}`);
     return null;
   }
 
-  const $ = cheerio.load(content);
-  const thumbnail = findThumbnail($, link);
-  const pubDate = getPublicationDate(item);
-  const title = item.title || `No Title Found for ${link}`;
-
-  return {
-    site_id: site.id,
-    title,
-    url: link,
-    content,
-    pub_date: pubDate,
-    thumbnail,
-  };
+  return content;
 }
 
 /**
- * Find thumbnail from article content
- * Priority: Same domain + no "logo" + https > Same domain + no "logo" + http > First image
+ * Process a single article from RSS feed
  */
-// export function findThumbnail($: cheerio.CheerioAPI, pageUrl: string, domain: string): string {
-//   // Find images from the same domain, excluding logos
-//   const images = $('img.my-formatted:not([src^="data:"])').toArray();
-//   const candidates: string[] = [];
-//
-//   for (const img of images) {
-//     const src = $(img).attr('src');
-//     if (src) {
-//       const absoluteSrc = new URL(src, pageUrl).href;
-//       if (absoluteSrc.includes(domain) && !absoluteSrc.toLowerCase().includes('logo')) {
-//         candidates.push(absoluteSrc);
-//       }
-//     }
-//   }
-//
-//   // Prioritize https URLs
-//   if (candidates.length > 0) {
-//     const httpsCandidate = candidates.find((url) => url.startsWith('https://'));
-//     if (httpsCandidate) {
-//       return httpsCandidate;
-//     }
-//     // Fallback to first candidate (http or other)
-//     return candidates[0];
-//   }
-//
-//   // Fallback to first image
-//   const firstImg = $('img.my-formatted:not([src^="data:"])').first();
-//   const src = firstImg.attr('src');
-//   if (src) {
-//     return new URL(src, pageUrl).href;
-//   }
-//
-//   return '';
-// }
-
-function findThumbnail($: cheerio.CheerioAPI, pageUrl: string): string {
-  const images = $('img').toArray();
-  const candidates: string[] = [];
-
-  for (const img of images) {
-    const src = $(img).attr('src');
-    if (!src) continue;
-
-    // Filter out logos, icons, and other non-content images
-    const lowerSrc = src.toLowerCase();
-    if (
-      lowerSrc.includes('logo') ||
-      lowerSrc.includes('icon') ||
-      lowerSrc.includes('video.twimg.com/amplify_video') ||
-      lowerSrc.startsWith('data:')
-    ) {
-      continue;
-    }
+export async function processSingleArticle(
+  item: Parser.Item,
+  link: string,
+  site: Site,
+  generalRemoveTags: string[],
+  allowedHosts: Set<string>
+): Promise<ProcessedArticle | null> {
+  const fetched = await fetchArticleContent(link, site, generalRemoveTags, allowedHosts);
 
-    try {
-      // Resolve to absolute URL and add to candidates
-      const absoluteSrc = new URL(src, pageUrl).href;
-      candidates.push(absoluteSrc);
-    } catch (e) {
-      console.warn(`[WARN] Invalid image src found: "${src}" on page ${pageUrl}`);
-    }
+  if (!fetched) {
+    return null;
   }
 
-  if (candidates.length === 0) {
-    return '';
-  }
+  const { rawHtml: mobileHtml, content } = fetched;
 
-  // A simple heuristic: prefer images that appear later in the document,
-  // but not the very last one, as it might be a tracking pixel.
-  if (candidates.length > 2) {
-    return candidates[candidates.length - 2];
+  const canonicalUrl = resolveCanonicalLink(mobileHtml, link, getAllowedQueryParams(site)) ?? link;
+  if (canonicalUrl !== link) {
+    logInfo(`Resolved canonical URL: ${link} -> ${canonicalUrl}`);
   }
-  return candidates[candidates.length - 1];
+
+  const thumbnail = resolveThumbnail(item, mobileHtml, cheerio.load(content), link);
+  const pubDate = getPublicationDate(item);
+  const title = item.title || `No Title Found for ${link}`;
+
+  return {
+    article: {
+      site_id: site.id,
+      title,
+      url: canonicalUrl,
+      source_url: link,
+      content,
+      pub_date: pubDate,
+      thumbnail: thumbnail.url,
+      thumbnail_source: thumbnail.source,
+      fingerprint: computeArticleFingerprint(content),
+    },
+    rawHtml: mobileHtml,
+    text: extractPlainText(content),
+    strategy: fetched.strategy,
+  };
+}
+
+/**
+ * Search index entry for an article
+ * @param text Plain text of the article's processed content
+ */
+export function buildSearchDocument(
+  article: Pick<Article, 'title' | 'site_id' | 'pub_date'>,
+  site: Site,
+  text: string
+): SearchDocument {
+  return {
+    title: article.title,
+    text,
+    siteId: article.site_id,
+    category: site.category ?? null,
+    pubDate: article.pub_date,
+  };
 }
 
 /**
@@ -0,0 +1,151 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RunReport, SiteRunReport } from '../models/schemas.js';
+import { compareRuns, JsonFileRunReportStore } from './run-report.js';
+
+function siteReport(overrides: Partial<SiteRunReport> = {}): SiteRunReport {
+  return {
+    site_id: 1,
+    title: 'Example',
+    status: 'ok',
+    duration_ms: 5_000,
+    feed_items: 20,
+    feed_unchanged: false,
+    new_articles: 2,
+    failed_articles: 0,
+    filtered_articles: 0,
+    uploaded: 2,
+    upload_failed: 0,
+    fetch_strategies: { fetch: 2 },
+    error_class: null,
+    error: null,
+    auto_disabled: false,
+    ...overrides,
+  };
+}
+
+function runReport(startedAt: string, sites: SiteRunReport[]): RunReport {
+  return {
+    started_at: startedAt,
+    finished_at: startedAt,
+    duration_ms: 60_000,
+    fatal_error: null,
+    sites,
+  };
+}
+
+/**
+ * Reports newest first: the latest site outcome, then the baseline runs
+ */
+function compareSite(latest: SiteRunReport, baseline: SiteRunReport[]) {
+  const reports = [latest, ...baseline].map((site, i) =>
+    runReport(new Date(Date.UTC(2025, 9, 10 - i)).toISOString(), [site])
+  );
+  return compareRuns(reports)[0];
+}
+
+describe('compareRuns', () => {
+  it('returns nothing without reports', () => {
+    expect(compareRuns([])).toEqual([]);
+  });
+
+  it('flags nothing for a site behaving as before', () => {
+    const comparison = compareSite(siteReport(), [siteReport(), siteReport()]);
+
+    expect(comparison.flags).toEqual([]);
+    expect(comparison.baselineRuns).toBe(2);
+    expect(comparison.baselineDurationMs).toBe(5_000);
+    expect(comparison.baselineFeedItems).toBe(20);
+  });
+
+  it('flags a site failing after successful runs', () => {
+    const failed = siteReport({ status: 'failed', error_class: 'http', error: 'HTTP 500' });
+
+    expect(compareSite(failed, [siteReport()]).flags).toEqual(['failing']);
+    expect(compareSite(failed, [failed]).flags).toEqual([]);
+  });
+
+  it('flags a site much slower than its median', () => {
+    const baseline = [4_000, 5_000, 60_000].map((ms) => siteReport({ duration_ms: ms }));
+
+    expect(compareSite(siteReport({ duration_ms: 20_000 }), baseline).flags).toEqual(['slower']);
+    // Twice as slow, but by less than the minimum slowdown
+    expect(compareSite(siteReport({ duration_ms: 12_000 }), baseline).flags).toEqual([]);
+  });
+
+  it('flags an empty feed, unless the feed was not re-read', () => {
+    const baseline = [siteReport(), siteReport({ feed_unchanged: true, feed_items: 0 })];
+
+    expect(compareSite(siteReport({ feed_items: 0 }), baseline).flags).toEqual(['empty_feed']);
+    expect(
+      compareSite(siteReport({ feed_items: 0, feed_unchanged: true }), baseline).flags
+    ).toEqual([]);
+  });
+
+  it('flags upload and article failures only when they are new', () => {
+    const latest = siteReport({ upload_failed: 1, failed_articles: 2 });
+
+    expect(compareSite(latest, [siteReport()]).flags).toEqual([
+      'upload_failures',
+      'article_failures',
+    ]);
+    expect(
+      compareSite(latest, [siteReport({ upload_failed: 3, failed_articles: 1 })]).flags
+    ).toEqual([]);
+    expect(compareSite(latest, []).flags).toEqual([]);
+  });
+
+  it('compares each site with its own earlier runs', () => {
+    const reports = [
+      runReport('2025-10-10T00:00:00.000Z', [
+        siteReport({ site_id: 1, status: 'failed' }),
+        siteReport({ site_id: 2 }),
+      ]),
+      runReport('2025-10-09T00:00:00.000Z', [siteReport({ site_id: 1 })]),
+    ];
+
+    const [first, second] = compareRuns(reports);
+    expect(first).toMatchObject({ siteId: 1, baselineRuns: 1, flags: ['failing'] });
+    expect(second).toMatchObject({ siteId: 2, baselineRuns: 0, baselineDurationMs: null });
+  });
+});
+
+describe('JsonFileRunReportStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'run-reports-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns the latest reports newest first', async () => {
+    const store = new JsonFileRunReportStore(dir);
+    for (const day of ['08', '09', '10']) {
+      await store.save(runReport(`2025-10-${day}T00:00:00.000Z`, [siteReport()]));
+    }
+
+    const latest = await store.getLatest(2);
+    expect(latest.map((r) => r.started_at)).toEqual([
+      '2025-10-10T00:00:00.000Z',
+      '2025-10-09T00:00:00.000Z',
+    ]);
+  });
+
+  it('skips unreadable report files', async () => {
+    const store = new JsonFileRunReportStore(dir);
+    await store.save(runReport('2025-10-09T00:00:00.000Z', [siteReport()]));
+    await writeFile(join(dir, 'run-2025-10-10T00-00-00-000Z.json'), '{"started_at":');
+
+    const latest = await store.getLatest(5);
+    expect(latest.map((r) => r.started_at)).toEqual(['2025-10-09T00:00:00.000Z']);
+  });
+
+  it('returns nothing when the directory does not exist', async () => {
+    expect(await new JsonFileRunReportStore(join(dir, 'missing')).getLatest(5)).toEqual([]);
+  });
+});
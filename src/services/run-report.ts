@@ -0,0 +1,237 @@
+/**
+ * Structured scrape run reports
+ *
+ * Each run produces a RunReport with per-site timings, counts, fetch
+ * strategies and error classes. Reports are kept in Supabase or as JSON
+ * files so runs can be compared and regressions spotted.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { RunReportRepository } from '../repositories/run-report-repository.js';
+import { RunReport, RunReportSchema, Site, SiteRunReport } from '../models/schemas.js';
+import { ScrapeSiteResult } from './rss-scraper.js';
+import { classifySiteError } from './site-health.js';
+import { appConfig } from '../utils/config.js';
+import { logError, logInfo, logWarn } from '../utils/logger.js';
+
+export interface RunReportStore {
+  save(report: RunReport): Promise<void>;
+  // Newest first
+  getLatest(limit: number): Promise<RunReport[]>;
+}
+
+/**
+ * Run reports as one JSON file per run
+ */
+export class JsonFileRunReportStore implements RunReportStore {
+  constructor(private dir: string = appConfig.runReportDir) {}
+
+  async save(report: RunReport): Promise<void> {
+    try {
+      await mkdir(this.dir, { recursive: true });
+      const file = join(this.dir, `run-${report.started_at.replace(/[:.]/g, '-')}.json`);
+      await writeFile(file, JSON.stringify(report, null, 2));
+      logInfo(`Run report written to ${file}`);
+    } catch (error) {
+      logError(`Failed to write run report to ${this.dir}`, error);
+    }
+  }
+
+  async getLatest(limit: number): Promise<RunReport[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    // ISO timestamps in the names sort chronologically
+    const latest = files
+      .filter((f) => /^run-.*\.json$/.test(f))
+      .sort()
+      .reverse()
+      .slice(0, limit);
+
+    const reports = await Promise.all(latest.map((f) => this.read(join(this.dir, f))));
+    return reports.filter((r): r is RunReport => r !== null);
+  }
+
+  /**
+   * Read one report; an unreadable file is skipped so it can't hide the others
+   */
+  private async read(file: string): Promise<RunReport | null> {
+    try {
+      return RunReportSchema.parse(JSON.parse(await readFile(file, 'utf-8')));
+    } catch (error) {
+      logWarn(`Skipping unreadable run report ${file}`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Store selected by RUN_REPORT_STORE
+ */
+export function createRunReportStore(): RunReportStore {
+  return appConfig.runReportStore === 'supabase'
+    ? new RunReportRepository()
+    : new JsonFileRunReportStore();
+}
+
+/**
+ * Collects site outcomes during a run
+ */
+export class RunReportBuilder {
+  private startedAt = Date.now();
+  private sites: SiteRunReport[] = [];
+
+  recordSite(site: Site, result: ScrapeSiteResult, durationMs: number): void {
+    this.sites.push({
+      site_id: site.id,
+      title: site.title,
+      status: 'ok',
+      duration_ms: durationMs,
+      feed_items: result.totalArticles,
+      feed_unchanged: result.feedUnchanged ?? false,
+      new_articles: result.insertedCount,
+      failed_articles: result.failedCount ?? 0,
+      filtered_articles: result.filteredCount ?? 0,
+      uploaded: result.uploadedCount ?? 0,
+      upload_failed: result.uploadFailedCount ?? 0,
+      fetch_strategies: result.fetchStrategies ?? {},
+      error_class: null,
+      error: null,
+      auto_disabled: false,
+    });
+  }
+
+  recordSiteFailure(site: Site, error: unknown, durationMs: number, disabled: boolean): void {
+    this.sites.push({
+      site_id: site.id,
+      title: site.title,
+      status: 'failed',
+      duration_ms: durationMs,
+      feed_items: 0,
+      feed_unchanged: false,
+      new_articles: 0,
+      failed_articles: 0,
+      filtered_articles: 0,
+      uploaded: 0,
+      upload_failed: 0,
+      fetch_strategies: {},
+      error_class: classifySiteError(error),
+      error: errorMessage(error),
+      auto_disabled: disabled,
+    });
+  }
+
+  finish(fatalError?: unknown): RunReport {
+    const finishedAt = Date.now();
+    return {
+      started_at: new Date(this.startedAt).toISOString(),
+      finished_at: new Date(finishedAt).toISOString(),
+      duration_ms: finishedAt - this.startedAt,
+      fatal_error: fatalError === undefined ? null : errorMessage(fatalError),
+      sites: [...this.sites].sort((a, b) => a.site_id - b.site_id),
+    };
+  }
+}
+
+export type RegressionFlag =
+  | 'failing'
+  | 'slower'
+  | 'empty_feed'
+  | 'upload_failures'
+  | 'article_failures';
+
+export interface SiteComparison {
+  siteId: number;
+  title: string;
+  latest: SiteRunReport;
+  // Earlier runs of the site used as the baseline
+  baselineRuns: number;
+  baselineDurationMs: number | null;
+  baselineFeedItems: number | null;
+  flags: RegressionFlag[];
+}
+
+/**
+ * A site is slower when its duration exceeds the baseline median by this
+ * factor and by at least MIN_SLOWDOWN_MS
+ */
+const SLOWDOWN_FACTOR = 2;
+const MIN_SLOWDOWN_MS = 10_000;
+
+/**
+ * Compare the latest run with the runs before it
+ * @param reports Newest first, as returned by RunReportStore.getLatest
+ */
+export function compareRuns(reports: RunReport[]): SiteComparison[] {
+  const [latest, ...previous] = reports;
+  if (!latest) return [];
+
+  return latest.sites.map((site) => {
+    const baseline = previous
+      .map((report) => report.sites.find((s) => s.site_id === site.site_id))
+      .filter((s): s is SiteRunReport => !!s);
+    const succeeded = baseline.filter((s) => s.status === 'ok');
+    const feedsRead = succeeded.filter((s) => !s.feed_unchanged);
+
+    const baselineDurationMs = median(succeeded.map((s) => s.duration_ms));
+    const baselineFeedItems = median(feedsRead.map((s) => s.feed_items));
+
+    const flags: RegressionFlag[] = [];
+    if (site.status === 'failed' && succeeded.length > 0) {
+      flags.push('failing');
+    }
+    if (
+      site.status === 'ok' &&
+      baselineDurationMs !== null &&
+      site.duration_ms > baselineDurationMs * SLOWDOWN_FACTOR &&
+      site.duration_ms - baselineDurationMs >= MIN_SLOWDOWN_MS
+    ) {
+      flags.push('slower');
+    }
+    if (
+      site.status === 'ok' &&
+      !site.feed_unchanged &&
+      site.feed_items === 0 &&
+      baselineFeedItems !== null &&
+      baselineFeedItems > 0
+    ) {
+      flags.push('empty_feed');
+    }
+    // Upload and article failures are new when no earlier run had any
+    const isNew = (count: (s: SiteRunReport) => number) =>
+      count(site) > 0 && baseline.length > 0 && baseline.every((s) => count(s) === 0);
+    if (isNew((s) => s.upload_failed)) {
+      flags.push('upload_failures');
+    }
+    if (isNew((s) => s.failed_articles)) {
+      flags.push('article_failures');
+    }
+
+    return {
+      siteId: site.site_id,
+      title: site.title,
+      latest: site,
+      baselineRuns: baseline.length,
+      baselineDurationMs,
+      baselineFeedItems,
+      flags,
+    };
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,136 @@
+/**
+ * Adaptive site scheduling
+ *
+ * Each site's scrape interval is learned from how often it published in the
+ * lookback window: half the average gap between articles, clamped to the
+ * configured bounds. Busy sites are scraped more often and quiet ones less.
+ * Scraped sites without recent articles get the maximum interval; only sites
+ * never scraped yet keep their static scrape_interval_seconds.
+ * Used when SCHEDULER=adaptive; the default rpc scheduler leaves selection
+ * to GET_SITES_TO_SCRAPE_RPC.
+ */
+
+import { ArticleRepository } from '../repositories/article-repository.js';
+import { SiteRepository } from '../repositories/site-repository.js';
+import { Site } from '../models/schemas.js';
+import { appConfig } from '../utils/config.js';
+
+/**
+ * Articles published within this window determine the publish rate
+ */
+const LOOKBACK_DAYS = 14;
+
+/**
+ * Scrapes per expected new article
+ */
+const SCRAPES_PER_ARTICLE = 2;
+
+/**
+ * Interval assumed for sites without scrape_interval_seconds
+ */
+const DEFAULT_INTERVAL_SECONDS = 3600;
+
+/**
+ * Sites due within this margin count as due, so a run that starts a little
+ * early (cron jitter) doesn't push a site back by a whole run
+ */
+const DUE_SLACK_MS = 5 * 60 * 1000;
+
+export type IntervalSource = 'adaptive' | 'static' | 'default';
+
+export interface SiteSchedule {
+  site: Site;
+  intervalSeconds: number;
+  intervalSource: IntervalSource;
+  // Articles published in the lookback window
+  recentArticles: number;
+  nextRunAt: number;
+  due: boolean;
+}
+
+export interface SchedulerOptions {
+  minIntervalSeconds?: number;
+  maxIntervalSeconds?: number;
+}
+
+export class SiteScheduler {
+  private minIntervalSeconds: number;
+  private maxIntervalSeconds: number;
+
+  constructor(
+    private siteRepo: SiteRepository,
+    private articleRepo: ArticleRepository,
+    options: SchedulerOptions = {}
+  ) {
+    this.minIntervalSeconds = options.minIntervalSeconds ?? appConfig.minScrapeIntervalSeconds;
+    this.maxIntervalSeconds = options.maxIntervalSeconds ?? appConfig.maxScrapeIntervalSeconds;
+  }
+
+  /**
+   * Get the sites due for scraping with the configured scheduler
+   */
+  async getDueSites(now: number = Date.now()): Promise<Site[]> {
+    if (appConfig.scheduler === 'rpc') {
+      return this.siteRepo.getSitesToScrape();
+    }
+
+    const schedules = await this.plan(now);
+    return schedules.filter((s) => s.due).map((s) => s.site);
+  }
+
+  /**
+   * Compute the interval and next run of every site
+   */
+  async plan(now: number = Date.now()): Promise<SiteSchedule[]> {
+    const since = new Date(now - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const [sites, publications] = await Promise.all([
+      this.siteRepo.getAll(),
+      this.articleRepo.getRecentPublications(since),
+    ]);
+
+    const countsBySite = new Map<number, number>();
+    publications.forEach((p) =>
+      countsBySite.set(p.site_id, (countsBySite.get(p.site_id) ?? 0) + 1)
+    );
+
+    return sites.map((site) => this.scheduleSite(site, countsBySite.get(site.id) ?? 0, now));
+  }
+
+  private scheduleSite(site: Site, recentArticles: number, now: number): SiteSchedule {
+    const { intervalSeconds, intervalSource } = this.intervalFor(site, recentArticles);
+    const nextRunAt = Date.parse(site.last_access) + intervalSeconds * 1000;
+
+    return {
+      site,
+      intervalSeconds,
+      intervalSource,
+      recentArticles,
+      nextRunAt,
+      due: Number.isNaN(nextRunAt) || nextRunAt - DUE_SLACK_MS <= now,
+    };
+  }
+
+  private intervalFor(
+    site: Site,
+    recentArticles: number
+  ): { intervalSeconds: number; intervalSource: IntervalSource } {
+    if (recentArticles === 0) {
+      // A site that has been scraped and published nothing is quiet, not new
+      if (!Number.isNaN(Date.parse(site.last_access))) {
+        return { intervalSeconds: this.maxIntervalSeconds, intervalSource: 'adaptive' };
+      }
+      return site.scrape_interval_seconds
+        ? { intervalSeconds: site.scrape_interval_seconds, intervalSource: 'static' }
+        : { intervalSeconds: DEFAULT_INTERVAL_SECONDS, intervalSource: 'default' };
+    }
+
+    const averageGapSeconds = (LOOKBACK_DAYS * 24 * 60 * 60) / recentArticles;
+    const intervalSeconds = Math.round(
+      Math.min(
+        Math.max(averageGapSeconds / SCRAPES_PER_ARTICLE, this.minIntervalSeconds),
+        this.maxIntervalSeconds
+      )
+    );
+    return { intervalSeconds, intervalSource: 'adaptive' };
+  }
+}
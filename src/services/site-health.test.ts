@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Site, SiteHealth } from '../models/schemas.js';
+import { classifySiteError, nextAttemptAt } from './site-health.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const site: Site = {
+  id: 1,
+  url: 'https://example.com/',
+  domain: 'example.com',
+  title: 'Example',
+  rss: 'https://example.com/feed',
+  last_access: '2025-10-01T00:00:00.000Z',
+  scrape_interval_seconds: 1800,
+  scrape_options: null,
+};
+
+function healthWith(consecutiveFailures: number, lastFailureAt: string | null): SiteHealth {
+  return {
+    site_id: site.id,
+    consecutive_failures: consecutiveFailures,
+    last_error_class: consecutiveFailures > 0 ? 'http' : null,
+    last_error_message: null,
+    last_success_at: null,
+    last_failure_at: lastFailureAt,
+    avg_items_per_fetch: null,
+    fetch_count: 0,
+    disabled_at: null,
+  };
+}
+
+describe('nextAttemptAt', () => {
+  const failedAt = '2025-10-01T12:00:00.000Z';
+
+  it('does not hold back healthy sites', () => {
+    expect(nextAttemptAt(site, healthWith(0, failedAt))).toBe(0);
+    expect(nextAttemptAt(site, healthWith(2, null))).toBe(0);
+  });
+
+  it('doubles the site interval with each consecutive failure', () => {
+    expect(nextAttemptAt(site, healthWith(1, failedAt))).toBe(Date.parse(failedAt) + HOUR_MS);
+    expect(nextAttemptAt(site, healthWith(3, failedAt))).toBe(Date.parse(failedAt) + 4 * HOUR_MS);
+  });
+
+  it('assumes an hourly interval for sites without one', () => {
+    const unscheduled = { ...site, scrape_interval_seconds: null };
+    expect(nextAttemptAt(unscheduled, healthWith(1, failedAt))).toBe(
+      Date.parse(failedAt) + 2 * HOUR_MS
+    );
+  });
+
+  it('caps the backoff at a day', () => {
+    expect(nextAttemptAt(site, healthWith(20, failedAt))).toBe(Date.parse(failedAt) + 24 * HOUR_MS);
+  });
+});
+
+describe('classifySiteError', () => {
+  function withCode(message: string, code: string): Error {
+    return Object.assign(new Error(message), { code });
+  }
+
+  it('classifies timeouts', () => {
+    const signalTimeout = new DOMException(
+      'The operation was aborted due to timeout',
+      'TimeoutError'
+    );
+    expect(classifySiteError(signalTimeout)).toBe('timeout');
+    const timeout = new Error('The operation timed out');
+    expect(classifySiteError(timeout)).toBe('timeout');
+    const abort = new Error('This operation was aborted');
+    abort.name = 'AbortError';
+    expect(classifySiteError(abort)).toBe('timeout');
+  });
+
+  it('classifies HTTP errors', () => {
+    expect(classifySiteError(new Error('Status code 503'))).toBe('http');
+    expect(classifySiteError(new Error('HTTP 404 Not Found'))).toBe('http');
+  });
+
+  it('classifies network errors by code or cause', () => {
+    expect(classifySiteError(withCode('getaddrinfo ENOTFOUND example.com', 'ENOTFOUND'))).toBe(
+      'network'
+    );
+    const fetchFailed = new TypeError('fetch failed', {
+      cause: withCode('connect ECONNREFUSED', 'ECONNREFUSED'),
+    });
+    expect(classifySiteError(fetchFailed)).toBe('network');
+  });
+
+  it('classifies malformed feeds', () => {
+    expect(classifySiteError(new Error('Feed not recognized as RSS 1 or 2.'))).toBe('parse');
+    expect(classifySiteError(new Error('Unexpected close tag\nLine: 3'))).toBe('parse');
+  });
+
+  it('looks through wrapping errors', () => {
+    const wrapped = new Error('Failed to scrape site', { cause: new Error('Status code 500') });
+    expect(classifySiteError(wrapped)).toBe('http');
+  });
+
+  it('falls back to unknown', () => {
+    expect(classifySiteError(new Error('Something else'))).toBe('unknown');
+    expect(classifySiteError('not an error')).toBe('unknown');
+    expect(classifySiteError(null)).toBe('unknown');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Per-site scrape health, backoff and auto-disable
+ *
+ * Every scrape records its outcome. A failing site's effective scrape
+ * interval doubles with each consecutive failure, and the site is disabled
+ * once failures reach the threshold, so dead feeds stop being retried every
+ * run.
+ */
+
+import { SiteHealthRepository } from '../repositories/site-health-repository.js';
+import { Site, SiteErrorClass, SiteHealth } from '../models/schemas.js';
+import { appConfig } from '../utils/config.js';
+import { logInfo, logWarn } from '../utils/logger.js';
+
+/**
+ * Interval assumed for sites without scrape_interval_seconds
+ */
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Upper bound on the backed-off interval
+ */
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+
+/**
+ * Messages thrown by rss-parser / sax for malformed feeds
+ */
+const FEED_PARSE_ERROR_REGEX =
+  /not recognized as RSS|Unexpected close tag|Non-whitespace|Invalid character/i;
+
+export interface DueSitesResult {
+  due: Site[];
+  backedOff: Site[];
+  disabled: Site[];
+}
+
+export class SiteHealthTracker {
+  private records = new Map<number, SiteHealth>();
+
+  constructor(
+    private healthRepo: SiteHealthRepository,
+    private disableAfterFailures: number = appConfig.siteDisableAfterFailures
+  ) {}
+
+  /**
+   * Split sites due by schedule into those to scrape now,
+   * those still backing off after failures and those disabled
+   */
+  async filterDue(sites: Site[], now: number = Date.now()): Promise<DueSitesResult> {
+    const records = await this.healthRepo.getBySiteIds(sites.map((s) => s.id));
+    records.forEach((record) => this.records.set(record.site_id, record));
+
+    const result: DueSitesResult = { due: [], backedOff: [], disabled: [] };
+    for (const site of sites) {
+      const health = this.records.get(site.id);
+      if (health?.disabled_at) {
+        result.disabled.push(site);
+      } else if (health && now < nextAttemptAt(site, health)) {
+        result.backedOff.push(site);
+      } else {
+        result.due.push(site);
+      }
+    }
+
+    if (result.disabled.length > 0) {
+      logWarn(`Skipping disabled sites: ${result.disabled.map((s) => s.id).join(', ')}`);
+    }
+    if (result.backedOff.length > 0) {
+      logInfo(`Backing off failing sites: ${result.backedOff.map((s) => s.id).join(', ')}`);
+    }
+    return result;
+  }
+
+  /**
+   * Record a successful scrape
+   * @param itemCount Items in the feed, or null when the feed was not parsed
+   * (e.g. 304 Not Modified) and the average should be left alone
+   */
+  async recordSuccess(site: Site, itemCount: number | null): Promise<void> {
+    const health = this.get(site.id);
+    const fetchCount = itemCount === null ? health.fetch_count : health.fetch_count + 1;
+
+    await this.save({
+      ...health,
+      consecutive_failures: 0,
+      last_success_at: new Date().toISOString(),
+      fetch_count: fetchCount,
+      avg_items_per_fetch:
+        itemCount === null
+          ? health.avg_items_per_fetch
+          : (health.avg_items_per_fetch ?? 0) +
+            (itemCount - (health.avg_items_per_fetch ?? 0)) / fetchCount,
+    });
+  }
+
+  /**
+   * Record a failed scrape and disable the site at the threshold
+   * @returns True if this failure disabled the site
+   */
+  async recordFailure(site: Site, error: unknown): Promise<boolean> {
+    const health = this.get(site.id);
+    const failures = health.consecutive_failures + 1;
+    const disable = failures >= this.disableAfterFailures && !health.disabled_at;
+    const now = new Date().toISOString();
+
+    await this.save({
+      ...health,
+      consecutive_failures: failures,
+      last_error_class: classifySiteError(error),
+      last_error_message: errorMessage(error).slice(0, MAX_ERROR_MESSAGE_LENGTH),
+      last_failure_at: now,
+      disabled_at: disable ? now : health.disabled_at,
+    });
+
+    if (disable) {
+      logWarn(`Disabled site ${site.id} (${site.title}) after ${failures} consecutive failures`);
+    }
+    return disable;
+  }
+
+  private get(siteId: number): SiteHealth {
+    return (
+      this.records.get(siteId) ?? {
+        site_id: siteId,
+        consecutive_failures: 0,
+        last_error_class: null,
+        last_error_message: null,
+        last_success_at: null,
+        last_failure_at: null,
+        avg_items_per_fetch: null,
+        fetch_count: 0,
+        disabled_at: null,
+      }
+    );
+  }
+
+  private async save(health: SiteHealth): Promise<void> {
+    this.records.set(health.site_id, health);
+    await this.healthRepo.upsert(health);
+  }
+}
+
+/**
+ * Earliest time a failing site may be scraped again
+ * The site's interval doubles with each consecutive failure, up to
+ * MAX_BACKOFF_MS.
+ */
+export function nextAttemptAt(site: Site, health: SiteHealth): number {
+  if (health.consecutive_failures === 0 || !health.last_failure_at) {
+    return 0;
+  }
+
+  const interval = site.scrape_interval_seconds
+    ? site.scrape_interval_seconds * 1000
+    : DEFAULT_INTERVAL_MS;
+  const backoff = Math.min(interval * 2 ** health.consecutive_failures, MAX_BACKOFF_MS);
+  return Date.parse(health.last_failure_at) + backoff;
+}
+
+/**
+ * Classify a scrape error by walking its cause chain
+ */
+export function classifySiteError(error: unknown): SiteErrorClass {
+  for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+    if (!(current instanceof Error)) break;
+
+    const code = (current as { code?: string }).code;
+    if (current.name === 'TimeoutError' || current.name === 'AbortError') return 'timeout';
+    if (/timed? ?out/i.test(current.message)) return 'timeout';
+    if (/\bHTTP \d{3}\b|status code \d{3}/i.test(current.message)) return 'http';
+    if (code && /^(ENOTFOUND|ECONNREFUSED|ECONNRESET|EAI_AGAIN|CERT_|ERR_TLS)/.test(code)) {
+      return 'network';
+    }
+    if (current.message === 'fetch failed') return 'network';
+    if (FEED_PARSE_ERROR_REGEX.test(current.message)) return 'parse';
+  }
+  return 'unknown';
+}
+
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  return error.cause instanceof Error ? `${error.message}: ${error.cause.message}` : error.message;
+}
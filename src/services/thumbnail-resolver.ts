@@ -0,0 +1,201 @@
+/**
+ * Thumbnail resolution from feed media, page meta and article images
+ *
+ * Candidates are tried in rank order and the first one that passes the
+ * filters wins:
+ * 1. media:thumbnail / media:content from the feed item
+ * 2. RSS enclosure with an image type
+ * 3. og:image / twitter:image meta from the raw page HTML
+ * 4. Images in the processed article body
+ */
+
+import Parser from 'rss-parser';
+import * as cheerio from 'cheerio';
+import { logDebug } from '../utils/logger.js';
+
+export type ThumbnailSource =
+  | 'media_thumbnail'
+  | 'media_content'
+  | 'enclosure'
+  | 'og_image'
+  | 'twitter_image'
+  | 'body_image'
+  | 'none';
+
+export interface ThumbnailResult {
+  url: string;
+  source: ThumbnailSource;
+}
+
+interface ThumbnailCandidate {
+  url: string;
+  source: ThumbnailSource;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * rss-parser item with the custom media fields declared in rss-scraper.ts
+ */
+type MediaItem = Parser.Item & {
+  'media:thumbnail'?: unknown;
+  'media:content'?: unknown;
+};
+
+/**
+ * Images smaller than this (by width/height hints) are icons or buttons
+ */
+const MIN_SIZE_HINT = 100;
+
+const EXCLUDED_URL_PATTERNS = [
+  /logo/i,
+  /icon/i,
+  /avatar/i,
+  /emoji/i,
+  /spacer/i,
+  /blank\.(gif|png)/i,
+  /pixel/i,
+  /1x1/i,
+  /\.svg(\?|$)/i,
+  /video\.twimg\.com\/amplify_video/i,
+];
+
+const TRACKING_HOSTS = ['www.facebook.com', 'b.scorecardresearch.com', 'www.google-analytics.com'];
+
+/**
+ * Resolve the best thumbnail for an article
+ */
+export function resolveThumbnail(
+  item: Parser.Item,
+  rawHtml: string,
+  processed$: cheerio.CheerioAPI,
+  pageUrl: string
+): ThumbnailResult {
+  const candidates = [
+    ...collectFeedCandidates(item as MediaItem),
+    ...collectMetaCandidates(rawHtml),
+    ...collectBodyCandidates(processed$),
+  ];
+
+  for (const candidate of candidates) {
+    const url = toAbsoluteUrl(candidate.url, pageUrl);
+    if (url && isAcceptable({ ...candidate, url })) {
+      logDebug(`Thumbnail for ${pageUrl} from ${candidate.source}: ${url}`);
+      return { url, source: candidate.source };
+    }
+  }
+
+  return { url: '', source: 'none' };
+}
+
+/**
+ * Read url/width/height from an xml2js-parsed media element
+ */
+function readMediaElement(value: unknown, source: ThumbnailSource): ThumbnailCandidate[] {
+  const elements = Array.isArray(value) ? value : value ? [value] : [];
+
+  return elements.flatMap((element) => {
+    const attrs = (element as { $?: Record<string, string> })?.$;
+    if (!attrs?.url) return [];
+
+    // media:content may describe video or audio
+    const medium = attrs.medium ?? attrs.type ?? 'image';
+    if (!medium.startsWith('image')) return [];
+
+    return [
+      {
+        url: attrs.url,
+        source,
+        width: parseSizeHint(attrs.width),
+        height: parseSizeHint(attrs.height),
+      },
+    ];
+  });
+}
+
+function collectFeedCandidates(item: MediaItem): ThumbnailCandidate[] {
+  const candidates = [
+    ...readMediaElement(item['media:thumbnail'], 'media_thumbnail'),
+    ...readMediaElement(item['media:content'], 'media_content'),
+  ];
+
+  const enclosure = item.enclosure;
+  if (enclosure?.url && (!enclosure.type || enclosure.type.startsWith('image'))) {
+    candidates.push({ url: enclosure.url, source: 'enclosure' });
+  }
+
+  return candidates;
+}
+
+function collectMetaCandidates(rawHtml: string): ThumbnailCandidate[] {
+  const $ = cheerio.load(rawHtml);
+  const candidates: ThumbnailCandidate[] = [];
+
+  const ogImage =
+    $('meta[property="og:image"]').attr('content') ||
+    $('meta[property="og:image:url"]').attr('content');
+  if (ogImage) {
+    candidates.push({
+      url: ogImage,
+      source: 'og_image',
+      width: parseSizeHint($('meta[property="og:image:width"]').attr('content')),
+      height: parseSizeHint($('meta[property="og:image:height"]').attr('content')),
+    });
+  }
+
+  const twitterImage =
+    $('meta[name="twitter:image"]').attr('content') ||
+    $('meta[name="twitter:image:src"]').attr('content');
+  if (twitterImage) {
+    candidates.push({ url: twitterImage, source: 'twitter_image' });
+  }
+
+  return candidates;
+}
+
+function collectBodyCandidates($: cheerio.CheerioAPI): ThumbnailCandidate[] {
+  const candidates: ThumbnailCandidate[] = $('img')
+    .toArray()
+    .map((img) => {
+      const $img = $(img);
+      return {
+        url: $img.attr('src') ?? '',
+        source: 'body_image' as const,
+        width: parseSizeHint($img.attr('width')),
+        height: parseSizeHint($img.attr('height')),
+      };
+    });
+
+  // Images with a large size hint are most likely the article photo
+  const hasLargeHint = (c: ThumbnailCandidate) =>
+    (c.width ?? 0) >= MIN_SIZE_HINT * 3 || (c.height ?? 0) >= MIN_SIZE_HINT * 3;
+  return [...candidates.filter(hasLargeHint), ...candidates.filter((c) => !hasLargeHint(c))];
+}
+
+function isAcceptable(candidate: ThumbnailCandidate): boolean {
+  const { url, width, height } = candidate;
+
+  if (EXCLUDED_URL_PATTERNS.some((pattern) => pattern.test(url))) return false;
+  if (TRACKING_HOSTS.includes(new URL(url).hostname)) return false;
+  if (width !== undefined && width < MIN_SIZE_HINT) return false;
+  if (height !== undefined && height < MIN_SIZE_HINT) return false;
+
+  return true;
+}
+
+function parseSizeHint(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const size = parseInt(value, 10);
+  return Number.isNaN(size) ? undefined : size;
+}
+
+function toAbsoluteUrl(url: string, pageUrl: string): string | null {
+  if (!url.trim()) return null;
+
+  try {
+    const absolute = new URL(url.trim(), pageUrl);
+    return absolute.protocol === 'http:' || absolute.protocol === 'https:' ? absolute.href : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Offline rendering of tweet/X embeds to static cards
+ *
+ * Embeds are parsed from the blockquote.twitter-tweet markup that sites
+ * paste from X, so no request to X is made and the widget script can be
+ * dropped from the article.
+ */
+
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { logDebug, logWarn } from '../utils/logger.js';
+
+export interface TweetEmbed {
+  authorName: string;
+  authorHandle: string;
+  // Tweet text as sanitized HTML (text and links only)
+  textHtml: string;
+  date: string;
+  url: string;
+  mediaUrls: string[];
+}
+
+/**
+ * Turns a parsed embed into HTML. Returning null keeps the original
+ * blockquote (e.g. an oEmbed-backed renderer that failed).
+ */
+export interface TweetCardRenderer {
+  render(embed: TweetEmbed): Promise<string | null>;
+}
+
+const WIDGET_SCRIPT_SELECTOR =
+  'script[src*="platform.twitter.com/widgets.js"], script[src*="platform.x.com/widgets.js"]';
+
+const STATUS_URL_REGEX = /^https?:\/\/(?:mobile\.)?(?:twitter|x)\.com\/[^/]+\/status(?:es)?\/\d+/i;
+
+/**
+ * Default renderer producing a self-contained card with inline styles
+ */
+export class StaticTweetCardRenderer implements TweetCardRenderer {
+  async render(embed: TweetEmbed): Promise<string | null> {
+    const $ = cheerio.load('');
+    const card = $('<div class="tweet-card"></div>').attr(
+      'style',
+      'border:1px solid #cfd9de;border-radius:12px;padding:12px;margin:12px 0;line-height:1.5;'
+    );
+
+    const header = $('<div></div>').attr('style', 'font-size:14px;margin-bottom:8px;');
+    header.append($('<strong></strong>').text(embed.authorName));
+    if (embed.authorHandle) {
+      header.append(
+        $('<span></span>')
+          .attr('style', 'color:#536471;margin-left:4px;')
+          .text(`@${embed.authorHandle}`)
+      );
+    }
+    card.append(header);
+
+    card.append(
+      $('<p></p>').attr('style', 'white-space:pre-wrap;margin:0 0 8px;').html(embed.textHtml)
+    );
+
+    embed.mediaUrls.forEach((src) => {
+      card.append(
+        $('<img>').attr({
+          src,
+          loading: 'lazy',
+          referrerpolicy: 'no-referrer',
+          style: 'max-width:100%;height:auto;display:block;border-radius:8px;margin-bottom:8px',
+          class: 'my-formatted',
+        })
+      );
+    });
+
+    const footer = $('<a></a>')
+      .attr({ href: embed.url, style: 'font-size:13px;color:#536471;' })
+      .text(embed.date || embed.url);
+    card.append(footer);
+
+    return $.html(card);
+  }
+}
+
+/**
+ * Parse a blockquote.twitter-tweet element
+ * @returns The embed, or null if the markup has no status link
+ */
+export function parseTweetEmbed(
+  $: cheerio.CheerioAPI,
+  blockquote: cheerio.Cheerio<Element>
+): TweetEmbed | null {
+  const statusLink = blockquote
+    .find('a[href]')
+    .toArray()
+    .map((a) => $(a))
+    .reverse()
+    .find(($a) => STATUS_URL_REGEX.test($a.attr('href') ?? ''));
+
+  if (!statusLink) return null;
+
+  const url = (statusLink.attr('href') ?? '').split('?')[0];
+
+  // "— Name (@handle) <a>date</a>" follows the text paragraph
+  const byline = blockquote
+    .contents()
+    .toArray()
+    .filter((node) => node.type === 'text')
+    .map((node) => $(node).text())
+    .join(' ');
+  const authorMatch = byline.match(/[—–-]\s*(.+?)\s*\(@(\w+)\)/);
+
+  const textHtml = sanitizeTweetText($, blockquote.find('p').first());
+  const mediaUrls = blockquote
+    .find('img[src]')
+    .toArray()
+    .map((img) => $(img).attr('src') ?? '')
+    .filter((src) => src.startsWith('http'));
+
+  return {
+    authorName: authorMatch?.[1] ?? '',
+    authorHandle: authorMatch?.[2] ?? url.split('/')[3] ?? '',
+    textHtml,
+    date: statusLink.text().trim(),
+    url,
+    mediaUrls,
+  };
+}
+
+/**
+ * Keep only text, line breaks and links (href only) from the tweet text
+ */
+function sanitizeTweetText($: cheerio.CheerioAPI, paragraph: cheerio.Cheerio<Element>): string {
+  const out = cheerio.load('');
+  const container = out('<div></div>');
+
+  paragraph.contents().each((_, node) => {
+    if (node.type === 'tag' && node.tagName === 'br') {
+      container.append('<br>');
+    } else if (node.type === 'tag' && node.tagName === 'a') {
+      const href = $(node).attr('href') ?? '';
+      const link = out('<a></a>').text($(node).text());
+      if (/^https?:\/\//i.test(href)) link.attr('href', href);
+      container.append(link);
+    } else {
+      container.append(escapeHtml($(node).text()));
+    }
+  });
+
+  return container.html() ?? '';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Replace tweet embeds with rendered cards
+ * The widget script is removed only when every embed was converted.
+ */
+export async function convertTweetEmbeds(
+  $: cheerio.CheerioAPI,
+  renderer: TweetCardRenderer
+): Promise<void> {
+  const blockquotes = $('blockquote.twitter-tweet').toArray();
+  if (blockquotes.length === 0) return;
+
+  let convertedCount = 0;
+  for (const blockquote of blockquotes) {
+    const $blockquote = $(blockquote);
+
+    try {
+      const embed = parseTweetEmbed($, $blockquote);
+      const card = embed ? await renderer.render(embed) : null;
+      if (card) {
+        $blockquote.replaceWith(card);
+        convertedCount++;
+      }
+    } catch (error) {
+      logWarn('Failed to render tweet embed', error);
+    }
+  }
+
+  logDebug(`Converted ${convertedCount}/${blockquotes.length} tweet embeds`);
+
+  if (convertedCount === blockquotes.length) {
+    $(WIDGET_SCRIPT_SELECTOR).remove();
+  }
+}
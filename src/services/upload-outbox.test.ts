@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { nextAttemptAt } from './upload-outbox.js';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = Date.parse('2025-10-01T00:00:00.000Z');
+
+describe('nextAttemptAt', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries ten minutes after the first failure', () => {
+    expect(Date.parse(nextAttemptAt(0))).toBe(NOW + 10 * MINUTE_MS);
+  });
+
+  it('doubles the delay after each failed retry', () => {
+    expect(Date.parse(nextAttemptAt(1))).toBe(NOW + 20 * MINUTE_MS);
+    expect(Date.parse(nextAttemptAt(3))).toBe(NOW + 80 * MINUTE_MS);
+  });
+
+  it('caps the delay at twelve hours', () => {
+    expect(Date.parse(nextAttemptAt(10))).toBe(NOW + 12 * 60 * MINUTE_MS);
+  });
+});
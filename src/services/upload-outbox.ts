@@ -0,0 +1,172 @@
+/**
+ * Durable retry queue for R2 uploads that failed during a scrape
+ */
+
+import { ArticleRepository } from '../repositories/article-repository.js';
+import { ArticleContentItem, ArticlesApiClient } from '../repositories/articles-api-client.js';
+import { UploadOutboxRepository } from '../repositories/upload-outbox-repository.js';
+import { appConfig } from '../utils/config.js';
+import { logError, logInfo, logSuccess, logWarn } from '../utils/logger.js';
+
+export interface FailedUpload extends ArticleContentItem {
+  error?: string;
+}
+
+export interface DrainReport {
+  attempted: number;
+  uploaded: number;
+  requeued: number;
+  givenUp: number;
+  // Entries dropped because their article was deleted
+  dropped: number;
+}
+
+/**
+ * Delay before the first retry, doubled on every failed retry
+ */
+const BASE_RETRY_DELAY_MS = 10 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Entries retried per drain
+ */
+const DRAIN_LIMIT = 200;
+
+export class UploadOutbox {
+  constructor(
+    private outboxRepo: UploadOutboxRepository,
+    private articleRepo: ArticleRepository,
+    private maxAttempts: number = appConfig.uploadMaxAttempts
+  ) {}
+
+  /**
+   * Queue failed uploads and mark their articles as pending
+   */
+  async enqueue(failures: FailedUpload[]): Promise<void> {
+    if (failures.length === 0) return;
+
+    const stored = await this.outboxRepo.enqueue(
+      failures.map((f) => ({
+        article_id: f.articleId,
+        content: f.content,
+        raw_html: f.rawHtml ?? null,
+        source_url: f.sourceUrl ?? null,
+        search: f.search ?? null,
+        last_error: f.error ?? null,
+      })),
+      nextAttemptAt(0)
+    );
+
+    const ids = failures.map((f) => f.articleId);
+    if (stored) {
+      logInfo(`Queued ${ids.length} failed uploads for retry: ${ids.join(', ')}`);
+      await this.articleRepo.updateContentStatus(ids, 'pending');
+    } else {
+      // Without the outbox entry the content is gone, so don't wait for retries
+      logError(`Content for articles ${ids.join(', ')} is lost.`);
+      await this.articleRepo.updateContentStatus(ids, 'failed');
+    }
+  }
+
+  /**
+   * Retry due uploads
+   * Uploaded articles are marked ok; articles that reach the attempt limit
+   * are marked failed and dropped from the queue. Entries whose article was
+   * deleted (e.g. by pruning) are dropped without uploading, since the
+   * content would be an orphan in R2.
+   */
+  async drain(articlesApiClient: ArticlesApiClient): Promise<DrainReport> {
+    const report: DrainReport = { attempted: 0, uploaded: 0, requeued: 0, givenUp: 0, dropped: 0 };
+
+    const due = await this.outboxRepo.getDue(new Date().toISOString(), DRAIN_LIMIT);
+    if (due.length === 0) {
+      return report;
+    }
+
+    const existingIds = await this.articleRepo.findExistingIds(due.map((e) => e.article_id));
+    if (!existingIds) {
+      logWarn('Could not check queued uploads against articles, skipping retries.');
+      return report;
+    }
+
+    const deleted = due.filter((e) => !existingIds.has(e.article_id));
+    if (deleted.length > 0) {
+      logInfo(
+        `Dropping ${deleted.length} queued uploads for deleted articles: ${deleted.map((e) => e.article_id).join(', ')}`
+      );
+      await this.outboxRepo.removeByIds(deleted.map((e) => e.id));
+      report.dropped = deleted.length;
+    }
+
+    const entries = due.filter((e) => existingIds.has(e.article_id));
+    if (entries.length === 0) {
+      return report;
+    }
+
+    logInfo(`Retrying ${entries.length} queued R2 uploads...`);
+    report.attempted = entries.length;
+
+    const results = await articlesApiClient.saveArticleContents(
+      entries.map((e) => ({
+        articleId: e.article_id,
+        content: e.content,
+        rawHtml: e.raw_html ?? undefined,
+        sourceUrl: e.source_url ?? undefined,
+        search: e.search ?? undefined,
+      }))
+    );
+    const resultsById = new Map(results.map((r) => [r.articleId, r]));
+
+    const doneEntryIds: number[] = [];
+    const uploadedArticleIds: number[] = [];
+    const failedArticleIds: number[] = [];
+
+    for (const entry of entries) {
+      const result = resultsById.get(entry.article_id);
+
+      if (result?.success) {
+        doneEntryIds.push(entry.id);
+        uploadedArticleIds.push(entry.article_id);
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      if (attempts >= this.maxAttempts) {
+        doneEntryIds.push(entry.id);
+        failedArticleIds.push(entry.article_id);
+      } else {
+        await this.outboxRepo.recordAttempt(
+          entry.id,
+          attempts,
+          nextAttemptAt(attempts),
+          result?.error ?? null
+        );
+        report.requeued++;
+      }
+    }
+
+    await this.articleRepo.updateContentStatus(uploadedArticleIds, 'ok');
+    await this.articleRepo.updateContentStatus(failedArticleIds, 'failed');
+    await this.outboxRepo.removeByIds(doneEntryIds);
+
+    report.uploaded = uploadedArticleIds.length;
+    report.givenUp = failedArticleIds.length;
+
+    logSuccess(`Retried uploads: ${report.uploaded}/${report.attempted} succeeded.`);
+    if (report.givenUp > 0) {
+      logWarn(
+        `Gave up on ${report.givenUp} uploads after ${this.maxAttempts} attempts: ${failedArticleIds.join(', ')}`
+      );
+    }
+
+    return report;
+  }
+}
+
+/**
+ * Next retry time after the given number of failed retries
+ */
+export function nextAttemptAt(attempts: number): string {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+  return new Date(Date.now() + delay).toISOString();
+}
@@ -21,4 +21,17 @@ export interface ArticleProcessingResult {
 }
 
 // Re-export model types for convenience
-export type { Article, Site, ScrapeOptions, Category } from '../models/schemas.js';
+export type {
+  Article,
+  Site,
+  ScrapeOptions,
+  Category,
+  RetentionPolicy,
+  FeedFilterRule,
+  ContentStatus,
+  UploadOutboxEntry,
+  SiteHealth,
+  SiteErrorClass,
+  RunReport,
+  SiteRunReport,
+} from '../models/schemas.js';
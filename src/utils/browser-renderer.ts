@@ -0,0 +1,87 @@
+/**
+ * Headless browser rendering for JS-rendered sites
+ *
+ * The renderer is pluggable so that the 'browser' fetch strategy can be
+ * exercised with a stub instead of a real browser.
+ */
+
+import { launchPlaywright } from 'crawlee';
+import { randomMobileUserAgent, randomPcUserAgent } from './http-client.js';
+import { logDebug, logInfo, logWarn } from './logger.js';
+import type { UserAgentType } from './smart-http-client.js';
+
+export interface BrowserRenderOptions {
+  userAgent: UserAgentType;
+  timeout: number;
+}
+
+/**
+ * Renders a page and returns the resulting HTML
+ */
+export interface BrowserRenderer {
+  render(url: string, options: BrowserRenderOptions): Promise<string | null>;
+  close(): Promise<void>;
+}
+
+type PlaywrightBrowser = Awaited<ReturnType<typeof launchPlaywright>>;
+
+/**
+ * Default renderer backed by Playwright (Chromium)
+ * The browser is launched lazily on first use and shared between pages.
+ */
+export class PlaywrightBrowserRenderer implements BrowserRenderer {
+  private browserPromise: Promise<PlaywrightBrowser> | null = null;
+
+  private getBrowser(): Promise<PlaywrightBrowser> {
+    if (!this.browserPromise) {
+      logInfo('Launching headless browser');
+      this.browserPromise = launchPlaywright({ launchOptions: { headless: true } });
+      this.browserPromise.catch(() => {
+        // Allow a later call to retry the launch
+        this.browserPromise = null;
+      });
+    }
+    return this.browserPromise;
+  }
+
+  async render(url: string, options: BrowserRenderOptions): Promise<string | null> {
+    const browser = await this.getBrowser();
+    const context = await browser.newContext({
+      userAgent: options.userAgent === 'mobile' ? randomMobileUserAgent() : randomPcUserAgent(),
+      locale: 'ja-JP',
+      isMobile: options.userAgent === 'mobile',
+    });
+
+    try {
+      const page = await context.newPage();
+      logDebug(`Rendering with browser: ${url}`);
+
+      const response = await page.goto(url, {
+        waitUntil: 'networkidle',
+        timeout: options.timeout,
+      });
+
+      if (response && !response.ok()) {
+        logWarn(`HTTP ${response.status()} for URL (browser): ${url}`);
+        return null;
+      }
+
+      return await page.content();
+    } finally {
+      await context.close();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.browserPromise) return;
+
+    const browserPromise = this.browserPromise;
+    this.browserPromise = null;
+    try {
+      const browser = await browserPromise;
+      await browser.close();
+    } catch (error) {
+      logWarn('Failed to close headless browser', error);
+    }
+  }
+}
@@ -4,10 +4,27 @@
 
 import { config } from 'dotenv';
 import { z } from 'zod';
+import { FeedFilterRuleSchema } from '../models/schemas.js';
 
 // Load environment variables
 config();
 
+/**
+ * Parse a JSON environment variable during validation, so malformed JSON is
+ * reported with the other configuration errors
+ */
+function jsonEnv<T extends z.ZodTypeAny>(name: string, schema: T) {
+  return z.preprocess((value, ctx) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${name} must be valid JSON` });
+      return z.NEVER;
+    }
+  }, schema);
+}
+
 /**
  * Configuration schema with validation
  */
@@ -21,11 +38,15 @@ const ConfigSchema = z.object({
   siteTable: z.string(),
   categoryTable: z.string(),
   superCategoryTable: z.string(),
+  bookmarkTable: z.string(),
   allowHostTable: z.string(),
   generalRemoveTagsTable: z.string(),
+  uploadOutboxTable: z.string().default('upload_outbox'),
+  siteHealthTable: z.string().default('site_health'),
+  filteredItemTable: z.string().default('filtered_items'),
 
-  // RPC functions
-  getSitesToScrapeRpc: z.string(),
+  // RPC functions (only needed with the rpc scheduler)
+  getSitesToScrapeRpc: z.string().optional(),
 
   // Cloudflare workers
   articlesApiUrl: z.string().url('ARTICLES_API_URL must be a valid URL').optional(),
@@ -35,6 +56,41 @@ const ConfigSchema = z.object({
   maxArticles: z.number().int().positive(),
   batchSize: z.number().int().positive(),
   scrapeConcurrency: z.number().int().positive().default(5),
+  // Articles fetched at once within each site being scraped
+  articleConcurrency: z.number().int().positive().default(4),
+  pruneDryRun: z.boolean().default(false),
+
+  // Site scheduling: rpc delegates selection to GET_SITES_TO_SCRAPE_RPC,
+  // adaptive (opt-in) learns intervals from publish rates
+  scheduler: z.enum(['adaptive', 'rpc']).default('rpc'),
+  minScrapeIntervalSeconds: z.number().int().positive().default(3600),
+  maxScrapeIntervalSeconds: z.number().int().positive().default(86400),
+
+  // R2 upload retry (attempts before an article is marked as failed)
+  uploadMaxAttempts: z.number().int().positive().default(5),
+
+  // Where run reports are kept: a Supabase table or JSON files in a directory
+  runReportStore: z.enum(['supabase', 'file']).default('file'),
+  runReportTable: z.string().default('run_reports'),
+  runReportDir: z.string().default('run-reports'),
+
+  // Notifications (each configured sink receives every notification)
+  notifyWebhookUrl: z.string().url('NOTIFY_WEBHOOK_URL must be a valid URL').optional(),
+  notifySlackWebhookUrl: z.string().url('NOTIFY_SLACK_WEBHOOK_URL must be a valid URL').optional(),
+  notifyFile: z.string().optional(),
+  // Share of failed sites that triggers a notification, checked from notifyMinSites sites
+  notifyFailureRate: z.number().min(0).max(1).default(0.5),
+  notifyMinSites: z.number().int().positive().default(3),
+  // New article titles containing one of these (case-insensitive) are notified
+  notifyKeywords: z.array(z.string()).default([]),
+  // Message templates by event type, overriding the defaults
+  notifyTemplates: jsonEnv('NOTIFY_TEMPLATES', z.record(z.string(), z.string()).default({})),
+
+  // Filter rules applied to every site's feed items (JSON array)
+  feedFilterRules: jsonEnv('FEED_FILTER_RULES', z.array(FeedFilterRuleSchema).default([])),
+
+  // Consecutive scrape failures before a site is disabled
+  siteDisableAfterFailures: z.number().int().positive().default(10),
 
   // Environment
   nodeEnv: z.enum(['development', 'production', 'test']).default('development'),
@@ -63,6 +119,10 @@ const ConfigSchema = z.object({
 
   // Lazy loading attributes
   lazyAttrs: z.array(z.string()).default(['data-src', 'data-lazy-src', 'data-original']),
+
+  // Near-duplicate detection (max simhash bit difference, lookback window)
+  duplicateMaxDistance: z.number().int().min(0).default(3),
+  duplicateWindowDays: z.number().int().positive().default(3),
 });
 
 export type AppConfig = z.infer<typeof ConfigSchema>;
@@ -82,6 +142,9 @@ function loadConfig(): AppConfig {
     superCategoryTable: process.env.SUPER_CATEGORY_TABLE,
     allowHostTable: process.env.ALLOW_HOST_TABLE,
     generalRemoveTagsTable: process.env.GENERAL_REMOVE_TAGS_TABLE,
+    uploadOutboxTable: process.env.UPLOAD_OUTBOX_TABLE || undefined,
+    siteHealthTable: process.env.SITE_HEALTH_TABLE || undefined,
+    filteredItemTable: process.env.FILTERED_ITEM_TABLE || undefined,
 
     getSitesToScrapeRpc: process.env.GET_SITES_TO_SCRAPE_RPC,
 
@@ -93,12 +156,50 @@ function loadConfig(): AppConfig {
     scrapeConcurrency: process.env.SCRAPE_CONCURRENCY
       ? parseInt(process.env.SCRAPE_CONCURRENCY, 10)
       : undefined,
+    articleConcurrency: process.env.ARTICLE_CONCURRENCY
+      ? parseInt(process.env.ARTICLE_CONCURRENCY, 10)
+      : undefined,
+    pruneDryRun: process.env.PRUNE_DRY_RUN ? process.env.PRUNE_DRY_RUN === 'true' : undefined,
+    scheduler: process.env.SCHEDULER,
+    minScrapeIntervalSeconds: process.env.MIN_SCRAPE_INTERVAL_SECONDS
+      ? parseInt(process.env.MIN_SCRAPE_INTERVAL_SECONDS, 10)
+      : undefined,
+    maxScrapeIntervalSeconds: process.env.MAX_SCRAPE_INTERVAL_SECONDS
+      ? parseInt(process.env.MAX_SCRAPE_INTERVAL_SECONDS, 10)
+      : undefined,
+    uploadMaxAttempts: process.env.UPLOAD_MAX_ATTEMPTS
+      ? parseInt(process.env.UPLOAD_MAX_ATTEMPTS, 10)
+      : undefined,
+    runReportStore: process.env.RUN_REPORT_STORE,
+    runReportTable: process.env.RUN_REPORT_TABLE,
+    runReportDir: process.env.RUN_REPORT_DIR,
+    notifyWebhookUrl: process.env.NOTIFY_WEBHOOK_URL || undefined,
+    notifySlackWebhookUrl: process.env.NOTIFY_SLACK_WEBHOOK_URL || undefined,
+    notifyFile: process.env.NOTIFY_FILE || undefined,
+    notifyFailureRate: process.env.NOTIFY_FAILURE_RATE
+      ? parseFloat(process.env.NOTIFY_FAILURE_RATE)
+      : undefined,
+    notifyMinSites: process.env.NOTIFY_MIN_SITES
+      ? parseInt(process.env.NOTIFY_MIN_SITES, 10)
+      : undefined,
+    notifyKeywords: process.env.NOTIFY_KEYWORDS
+      ? process.env.NOTIFY_KEYWORDS.split(',')
+          .map((k) => k.trim())
+          .filter(Boolean)
+      : undefined,
+    notifyTemplates: process.env.NOTIFY_TEMPLATES || undefined,
+    feedFilterRules: process.env.FEED_FILTER_RULES || undefined,
+    siteDisableAfterFailures: process.env.SITE_DISABLE_AFTER_FAILURES
+      ? parseInt(process.env.SITE_DISABLE_AFTER_FAILURES, 10)
+      : undefined,
 
     nodeEnv: process.env.NODE_ENV,
     pcUserAgents: undefined,
     mobileUserAgents: undefined,
     allowedScriptHosts: undefined,
     lazyAttrs: undefined,
+    duplicateMaxDistance: undefined,
+    duplicateWindowDays: undefined,
   };
 
   try {
@@ -120,6 +221,12 @@ function loadConfig(): AppConfig {
  */
 export const appConfig = loadConfig();
 
+/**
+ * Version of the HTML processing pipeline, stored with every R2 content
+ * version. Bump when processArticleHtml output changes.
+ */
+export const PIPELINE_VERSION = '2025.10.1';
+
 /**
  * Regular expressions for media detection
  */
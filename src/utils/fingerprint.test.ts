@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeContentFingerprint,
+  computeTextFingerprint,
+  extractPlainText,
+  hammingDistance,
+  simhash,
+} from './fingerprint.js';
+
+const ARTICLE =
+  '東京都は十日、新しい交通計画を発表した。計画では、都心の主要な駅を結ぶ路線を増やし、' +
+  '朝の混雑を二割ほど減らすことを目指す。担当者によると、工事は来年の春に始まり、' +
+  '三年後の完成を予定している。費用はおよそ八百億円と見込まれ、国の補助も受ける方針だ。' +
+  '地元の商店街からは、利用客が増えることへの期待の声が上がっている一方で、' +
+  '工事期間中の騒音を心配する住民もいる。都は説明会を重ねて理解を求めるとしている。' +
+  'また、新しい路線には車いすでも使いやすい広い改札や、乗り換えの案内を多言語で表示する' +
+  '画面を設ける。観光客の増加に備え、駅の周辺には案内所と休憩所も整える計画だ。';
+
+describe('simhash', () => {
+  it('returns a 16-digit hex string', () => {
+    expect(simhash(ARTICLE)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('ignores whitespace', () => {
+    expect(simhash(ARTICLE.replace(/。/g, '。\n  '))).toBe(simhash(ARTICLE));
+  });
+
+  it('keeps small edits close', () => {
+    const edited = ARTICLE.replace('八百億円', '九百億円');
+    expect(hammingDistance(simhash(ARTICLE), simhash(edited))).toBeLessThanOrEqual(3);
+  });
+
+  it('keeps unrelated texts apart', () => {
+    const other =
+      'プロ野球の日本シリーズは第七戦までもつれ込み、最後は延長十二回に決着した。' +
+      '優勝したチームの監督は、選手たちが最後まであきらめなかったことをたたえた。' +
+      '球場には四万人を超える観客が詰めかけ、試合後も拍手が鳴りやまなかった。' +
+      '来季に向けては、若手の育成と投手陣の立て直しが課題になるとみられている。';
+    expect(hammingDistance(simhash(ARTICLE), simhash(other))).toBeGreaterThan(3);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('computeTextFingerprint', () => {
+  it('skips short texts', () => {
+    expect(computeTextFingerprint('短い本文')).toBeNull();
+  });
+
+  it('fingerprints long texts', () => {
+    expect(computeTextFingerprint(ARTICLE)).toBe(simhash(ARTICLE));
+  });
+});
+
+describe('computeContentFingerprint', () => {
+  it('fingerprints the visible text only', () => {
+    const html = `<html><body><script>track()</script><p>${ARTICLE}</p></body></html>`;
+    expect(extractPlainText(html)).toBe(ARTICLE);
+    expect(computeContentFingerprint(html)).toBe(simhash(ARTICLE));
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Content fingerprinting (simhash) for near-duplicate detection
+ */
+
+import * as cheerio from 'cheerio';
+
+/**
+ * Texts shorter than this produce unreliable fingerprints
+ */
+const MIN_TEXT_LENGTH = 200;
+
+/**
+ * Character shingle size. Character n-grams work for Japanese text,
+ * which has no word separators.
+ */
+const SHINGLE_SIZE = 3;
+
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * Extract visible plain text from processed article HTML
+ */
+export function extractPlainText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript').remove();
+  return $('body').text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 64-bit FNV-1a hash
+ */
+function fnv1a64(input: string): bigint {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= BigInt(input.charCodeAt(i));
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+  return hash;
+}
+
+/**
+ * Compute a 64-bit simhash of text as a 16-char hex string
+ */
+export function simhash(text: string): string {
+  const weights = new Array<number>(64).fill(0);
+  const normalized = text.replace(/\s+/g, '');
+
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+    const hash = fnv1a64(normalized.slice(i, i + SHINGLE_SIZE));
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let result = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      result |= 1n << BigInt(bit);
+    }
+  }
+  return result.toString(16).padStart(16, '0');
+}
+
+/**
+ * Compute the fingerprint of processed article HTML
+ * @returns Hex simhash, or null if the article has too little text
+ */
+export function computeContentFingerprint(html: string): string | null {
+  return computeTextFingerprint(extractPlainText(html));
+}
+
+/**
+ * Compute the fingerprint of plain text
+ * @returns Hex simhash, or null if the text is too short
+ */
+export function computeTextFingerprint(text: string): string | null {
+  if (text.length < MIN_TEXT_LENGTH) {
+    return null;
+  }
+  return simhash(text);
+}
+
+/**
+ * Number of differing bits between two hex simhashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
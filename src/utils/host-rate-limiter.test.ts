@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseRetryAfter } from './host-rate-limiter.js';
+
+describe('parseRetryAfter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-10-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads delay seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120_000);
+    expect(parseRetryAfter(' 0 ')).toBe(0);
+  });
+
+  it('reads an HTTP date as the time left until it', () => {
+    expect(parseRetryAfter('Wed, 01 Oct 2025 00:01:30 GMT')).toBe(90_000);
+  });
+
+  it('does not return a negative delay for a past date', () => {
+    expect(parseRetryAfter('Tue, 30 Sep 2025 23:00:00 GMT')).toBe(0);
+  });
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter('-5')).toBeNull();
+  });
+});
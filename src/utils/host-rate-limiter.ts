@@ -0,0 +1,128 @@
+/**
+ * Per-host request limiting
+ *
+ * Requests to the same host share a concurrency limit and a minimum delay
+ * between request starts. A Retry-After response pauses the whole host, so
+ * retries and other articles of the same site wait too.
+ */
+
+import { logDebug, logWarn } from './logger.js';
+
+export interface HostLimits {
+  // Requests to the host in flight at once
+  concurrency: number;
+  // Minimum time between the starts of two requests to the host
+  minDelayMs: number;
+}
+
+export const DEFAULT_HOST_LIMITS: HostLimits = {
+  concurrency: 2,
+  minDelayMs: 500,
+};
+
+/**
+ * Longest Retry-After honoured; longer values would stall the whole run
+ */
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+interface HostState {
+  active: number;
+  // Earliest start of the next request
+  nextStartAt: number;
+  waiters: Array<() => void>;
+}
+
+export class HostRateLimiter {
+  private hosts = new Map<string, HostState>();
+
+  /**
+   * Run a request once the host's limits allow it
+   */
+  async schedule<T>(url: string, limits: HostLimits, fn: () => Promise<T>): Promise<T> {
+    const state = this.getState(url);
+    await this.acquire(state, limits);
+    try {
+      return await fn();
+    } finally {
+      state.active--;
+      state.waiters.shift()?.();
+    }
+  }
+
+  /**
+   * Pause a host after a 429/503 response
+   * @param retryAfter Retry-After header value (seconds or HTTP date)
+   */
+  deferHost(url: string, retryAfter: string | null | undefined): void {
+    const delayMs = parseRetryAfter(retryAfter);
+    if (delayMs === null) return;
+
+    const state = this.getState(url);
+    const cappedMs = Math.min(delayMs, MAX_RETRY_AFTER_MS);
+    if (delayMs > MAX_RETRY_AFTER_MS) {
+      logWarn(`Retry-After of ${delayMs}ms for ${hostOf(url)} capped to ${cappedMs}ms`);
+    }
+    state.nextStartAt = Math.max(state.nextStartAt, Date.now() + cappedMs);
+    logDebug(`Pausing ${hostOf(url)} for ${cappedMs}ms (Retry-After)`);
+  }
+
+  private async acquire(state: HostState, limits: HostLimits): Promise<void> {
+    for (;;) {
+      if (state.active >= Math.max(1, limits.concurrency)) {
+        await new Promise<void>((resolve) => state.waiters.push(resolve));
+        continue;
+      }
+
+      const waitMs = state.nextStartAt - Date.now();
+      if (waitMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+        continue;
+      }
+
+      state.active++;
+      state.nextStartAt = Date.now() + limits.minDelayMs;
+      return;
+    }
+  }
+
+  private getState(url: string): HostState {
+    const host = hostOf(url);
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStartAt: 0, waiters: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
+
+/**
+ * Shared limiter for every fetch in the process
+ */
+export const hostRateLimiter = new HostRateLimiter();
+
+/**
+ * Retry-After as a delay in milliseconds, or null if missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  // HTTP dates start with the day name; Date.parse would also take '-5' as a year
+  if (!/^[a-z]/i.test(trimmed)) return null;
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
@@ -4,6 +4,7 @@
 
 import { appConfig } from './config.js';
 import { logError, logWarn } from './logger.js';
+import { hostRateLimiter } from './host-rate-limiter.js';
 
 /**
  * Get random PC user agent
@@ -45,6 +46,9 @@ export async function fetchHtml(
 
     if (!response.ok) {
       logWarn(`HTTP ${response.status} for URL: ${url}`);
+      if (response.status === 429 || response.status === 503) {
+        hostRateLimiter.deferHost(url, response.headers.get('retry-after'));
+      }
       return '';
     }
 
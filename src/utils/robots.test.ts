@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { isPathAllowed, parseRobotsTxt } from './robots.js';
+
+describe('parseRobotsTxt', () => {
+  it('reads only the wildcard group', () => {
+    const rules = parseRobotsTxt(
+      [
+        'User-agent: Googlebot',
+        'Disallow: /google-only/',
+        '',
+        'User-agent: *',
+        'Disallow: /private/ # members only',
+        'Allow: /private/public',
+        'Crawl-delay: 1.5',
+      ].join('\r\n')
+    );
+
+    expect(rules).toEqual({
+      allow: ['/private/public'],
+      disallow: ['/private/'],
+      crawlDelayMs: 1500,
+    });
+  });
+
+  it('applies a group to every user agent listed before it', () => {
+    const rules = parseRobotsTxt(
+      ['User-agent: bot', 'User-agent: *', 'Disallow: /tmp/'].join('\n')
+    );
+    expect(rules.disallow).toEqual(['/tmp/']);
+  });
+
+  it('ignores empty Disallow lines', () => {
+    expect(parseRobotsTxt('User-agent: *\nDisallow:').disallow).toEqual([]);
+  });
+});
+
+describe('isPathAllowed', () => {
+  const rules = parseRobotsTxt(
+    [
+      'User-agent: *',
+      'Disallow: /private/',
+      'Allow: /private/public',
+      'Disallow: /*.pdf$',
+      'Disallow: /search?',
+      'Allow: /tie',
+      'Disallow: /tie',
+    ].join('\n')
+  );
+
+  it('allows paths without a matching rule', () => {
+    expect(isPathAllowed(rules, '/news/1')).toBe(true);
+    expect(isPathAllowed({ allow: [], disallow: [], crawlDelayMs: null }, '/')).toBe(true);
+  });
+
+  it('disallows paths under a Disallow prefix', () => {
+    expect(isPathAllowed(rules, '/private/notes')).toBe(false);
+  });
+
+  it('lets the longest matching rule win', () => {
+    expect(isPathAllowed(rules, '/private/public/page')).toBe(true);
+  });
+
+  it('lets Allow win a tie', () => {
+    expect(isPathAllowed(rules, '/tie/1')).toBe(true);
+  });
+
+  it('supports wildcards and end anchors', () => {
+    expect(isPathAllowed(rules, '/files/report.pdf')).toBe(false);
+    expect(isPathAllowed(rules, '/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('matches the query string', () => {
+    expect(isPathAllowed(rules, '/search?q=news')).toBe(false);
+    expect(isPathAllowed(rules, '/search')).toBe(true);
+  });
+});
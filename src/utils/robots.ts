@@ -0,0 +1,127 @@
+/**
+ * robots.txt checking with a per-origin cache
+ *
+ * Only the `User-agent: *` group is used. Rules follow RFC 9309: the longest
+ * matching Allow/Disallow path wins, Allow wins ties, and `*` / `$` are
+ * supported in paths.
+ */
+
+import { logDebug, logWarn } from './logger.js';
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  // Crawl-delay in milliseconds, if given
+  crawlDelayMs: number | null;
+}
+
+const ROBOTS_TIMEOUT_MS = 10000;
+
+const cache = new Map<string, Promise<RobotsRules | null>>();
+
+/**
+ * Rules for a URL's origin, fetched once per process
+ * @returns null when robots.txt is missing or unreadable (everything allowed)
+ */
+export function getRobotsRules(url: string): Promise<RobotsRules | null> {
+  const origin = new URL(url).origin;
+
+  let rules = cache.get(origin);
+  if (!rules) {
+    rules = fetchRobotsRules(origin);
+    cache.set(origin, rules);
+  }
+  return rules;
+}
+
+/**
+ * Whether robots.txt allows fetching the URL
+ */
+export async function isAllowedByRobots(url: string): Promise<boolean> {
+  const rules = await getRobotsRules(url);
+  if (!rules) return true;
+
+  const { pathname, search } = new URL(url);
+  return isPathAllowed(rules, pathname + search);
+}
+
+async function fetchRobotsRules(origin: string): Promise<RobotsRules | null> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      redirect: 'follow',
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      logDebug(`No robots.txt for ${origin} (HTTP ${response.status})`);
+      return null;
+    }
+
+    return parseRobotsTxt(await response.text());
+  } catch (error) {
+    logWarn(`Failed to fetch robots.txt for ${origin}`, error);
+    return null;
+  }
+}
+
+/**
+ * Parse the `User-agent: *` group of a robots.txt
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  const rules: RobotsRules = { allow: [], disallow: [], crawlDelayMs: null };
+
+  let inWildcardGroup = false;
+  // Consecutive User-agent lines share one group
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!readingAgents) inWildcardGroup = false;
+      readingAgents = true;
+      if (value === '*') inWildcardGroup = true;
+      continue;
+    }
+    readingAgents = false;
+
+    if (!inWildcardGroup) continue;
+
+    if (field === 'allow' && value) {
+      rules.allow.push(value);
+    } else if (field === 'disallow' && value) {
+      rules.disallow.push(value);
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!Number.isNaN(seconds)) rules.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Apply Allow/Disallow rules to a path (with query string)
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longestMatch = (patterns: string[]) =>
+    Math.max(-1, ...patterns.filter((p) => matchesPattern(p, path)).map((p) => p.length));
+
+  return longestMatch(rules.allow) >= longestMatch(rules.disallow);
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
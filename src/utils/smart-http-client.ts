@@ -1,25 +1,69 @@
 /**
- * Smart HTTP client with 2-stage fallback strategy
+ * Smart HTTP client with staged fallback strategy
  *
  * Strategy:
- * 1. Try crawlee (got-scraping) - Best for Cloudflare/Bot protection
- * 2. Fall back to legacy fetch - Lightweight but may be blocked
+ * 1. Try headless browser (only when the site opts in) - For JS-rendered pages
+ * 2. Try crawlee (got-scraping) - Best for Cloudflare/Bot protection
+ * 3. Fall back to legacy fetch - Lightweight but may be blocked
  *
- * Note: Playwright removed - Flutter InAppWebView handles dynamic content
+ * Every request goes through the shared per-host limiter, and robots.txt is
+ * checked first when the site opts in.
+ *
+ * Note: Flutter InAppWebView handles most dynamic content, so the browser
+ * strategy is only used for sites whose article body is rendered by JS.
  */
 
 import { gotScraping } from 'crawlee';
 import { fetchHtml as legacyFetchHtml } from './http-client.js';
+import { BrowserRenderer, PlaywrightBrowserRenderer } from './browser-renderer.js';
+import { DEFAULT_HOST_LIMITS, HostLimits, hostRateLimiter } from './host-rate-limiter.js';
+import { getRobotsRules, isAllowedByRobots } from './robots.js';
 import { logDebug, logWarn, logError, logInfo } from './logger.js';
 
-export type FetchStrategy = 'crawlee' | 'fetch';
+export type FetchStrategy = 'crawlee' | 'fetch' | 'browser';
 export type UserAgentType = 'mobile' | 'pc';
 
-interface SmartFetchOptions {
+export interface SmartFetchOptions {
   strategy?: FetchStrategy;
   userAgent?: UserAgentType;
   timeout?: number;
   maxRetries?: number;
+  // Overrides of DEFAULT_HOST_LIMITS for the URL's host
+  hostLimits?: Partial<HostLimits>;
+  respectRobotsTxt?: boolean;
+}
+
+let browserRenderer: BrowserRenderer | null = null;
+
+/**
+ * Replace the renderer used by the 'browser' strategy (e.g. with a stub in tests)
+ */
+export function setBrowserRenderer(renderer: BrowserRenderer | null): void {
+  browserRenderer = renderer;
+}
+
+function getBrowserRenderer(): BrowserRenderer {
+  if (!browserRenderer) {
+    browserRenderer = new PlaywrightBrowserRenderer();
+  }
+  return browserRenderer;
+}
+
+/**
+ * Close the browser renderer if one was started
+ */
+export async function closeBrowserRenderer(): Promise<void> {
+  if (browserRenderer) {
+    await browserRenderer.close();
+  }
+}
+
+/**
+ * Response attached to got's HTTPError
+ */
+interface CrawleeErrorResponse {
+  statusCode?: number;
+  headers?: Record<string, string | string[] | undefined>;
 }
 
 /**
@@ -54,7 +98,8 @@ async function fetchWithCrawlee(
       },
       retry: {
         limit: 2,
-        statusCodes: [408, 413, 429, 500, 502, 503, 504, 521, 522, 524],
+        // 429 and 503 are retried by fetchWithRetries after the host's Retry-After
+        statusCodes: [408, 413, 500, 502, 504, 521, 522, 524],
       },
       http2: true,
       followRedirect: true,
@@ -64,6 +109,12 @@ async function fetchWithCrawlee(
     return response.body;
   } catch (error) {
     logWarn(`crawlee fetch failed for ${url}`, error);
+
+    const response = (error as { response?: CrawleeErrorResponse }).response;
+    if (response?.statusCode === 429 || response?.statusCode === 503) {
+      const retryAfter = response.headers?.['retry-after'];
+      hostRateLimiter.deferHost(url, Array.isArray(retryAfter) ? retryAfter[0] : retryAfter);
+    }
     return null;
   }
 }
@@ -91,6 +142,68 @@ async function fetchWithLegacyFetch(
   }
 }
 
+/**
+ * Fetch HTML by rendering the page in a headless browser
+ * Slowest option, only for pages whose content is built by JavaScript
+ */
+async function fetchWithBrowser(
+  url: string,
+  userAgent: UserAgentType = 'mobile',
+  timeout: number = 30000
+): Promise<string | null> {
+  try {
+    logDebug(`Fetching with browser: ${url}`);
+    const html = await getBrowserRenderer().render(url, { userAgent, timeout });
+
+    if (html) {
+      logInfo(`Browser fetch success: ${url} (${html.length} bytes)`);
+    }
+
+    return html;
+  } catch (error) {
+    logWarn(`Browser fetch failed for ${url}`, error);
+    return null;
+  }
+}
+
+/**
+ * Retry a fetch function with linear backoff
+ */
+async function fetchWithRetries(
+  label: string,
+  url: string,
+  maxRetries: number,
+  fetchFn: () => Promise<string | null>
+): Promise<string | null> {
+  let html: string | null = null;
+  let attempt = 0;
+
+  while (attempt < maxRetries && !html) {
+    attempt++;
+    logDebug(`${label} attempt ${attempt}/${maxRetries} for ${url}`);
+    html = await fetchFn();
+
+    if (html) {
+      return html;
+    }
+
+    // Wait before retry
+    if (attempt < maxRetries) {
+      const waitTime = attempt * 1000; // 1s, 2s, 3s...
+      logDebug(`Waiting ${waitTime}ms before retry...`);
+      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    }
+  }
+
+  return html;
+}
+
+export interface SmartFetchResult {
+  html: string;
+  // Strategy that produced the HTML
+  strategy: FetchStrategy;
+}
+
 /**
  * Smart fetch with automatic fallback strategy
  *
@@ -102,51 +215,102 @@ export async function smartFetchHtml(
   url: string,
   options: SmartFetchOptions = {}
 ): Promise<string | null> {
+  return (await smartFetch(url, options))?.html ?? null;
+}
+
+/**
+ * Smart fetch that also reports which strategy succeeded
+ *
+ * @param url - URL to fetch
+ * @param options - Fetch options
+ * @returns HTML content and strategy, or null if all strategies fail
+ */
+export async function smartFetch(
+  url: string,
+  options: SmartFetchOptions = {}
+): Promise<SmartFetchResult | null> {
   const {
     strategy = 'crawlee',
     userAgent = 'mobile',
     timeout = 30000,
     maxRetries = 3,
+    respectRobotsTxt = false,
   } = options;
 
   logInfo(`Smart fetch starting for ${url} with strategy: ${strategy}`);
 
+  if (respectRobotsTxt && !(await isAllowedByRobots(url))) {
+    logWarn(`Disallowed by robots.txt: ${url}`);
+    return null;
+  }
+
+  const limits = await resolveHostLimits(url, options);
+  const limited = (fetchFn: () => Promise<string | null>) => () =>
+    hostRateLimiter.schedule(url, limits, fetchFn);
+
   // Single strategy mode (no fallback)
   if (strategy === 'fetch') {
-    return fetchWithLegacyFetch(url, userAgent);
+    const html = await limited(() => fetchWithLegacyFetch(url, userAgent))();
+    return html ? { html, strategy: 'fetch' } : null;
   }
 
-  // Default: crawlee with fallback
   let html: string | null = null;
-  let attempt = 0;
-
-  // Stage 1: Try crawlee
-  while (attempt < maxRetries && !html) {
-    attempt++;
-    logDebug(`crawlee attempt ${attempt}/${maxRetries} for ${url}`);
-    html = await fetchWithCrawlee(url, userAgent, timeout);
 
+  // Stage 1: Try headless browser (browser strategy only)
+  if (strategy === 'browser') {
+    html = await fetchWithRetries(
+      'browser',
+      url,
+      maxRetries,
+      limited(() => fetchWithBrowser(url, userAgent, timeout))
+    );
     if (html) {
-      return html;
+      return { html, strategy: 'browser' };
     }
+    logWarn(`Browser failed after ${maxRetries} attempts, trying crawlee...`);
+  }
 
-    // Wait before retry
-    if (attempt < maxRetries) {
-      const waitTime = attempt * 1000; // 1s, 2s, 3s...
-      logDebug(`Waiting ${waitTime}ms before retry...`);
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
-    }
+  // Stage 2: Try crawlee
+  html = await fetchWithRetries(
+    'crawlee',
+    url,
+    maxRetries,
+    limited(() => fetchWithCrawlee(url, userAgent, timeout))
+  );
+  if (html) {
+    return { html, strategy: 'crawlee' };
   }
 
-  // Stage 2: Try legacy fetch as fallback
+  // Stage 3: Try legacy fetch as fallback
   logWarn(`crawlee failed after ${maxRetries} attempts, trying legacy fetch...`);
-  html = await fetchWithLegacyFetch(url, userAgent);
+  html = await limited(() => fetchWithLegacyFetch(url, userAgent))();
 
   if (!html) {
     logError(`All fetch strategies failed for ${url}`);
+    return null;
   }
 
-  return html;
+  return { html, strategy: 'fetch' };
+}
+
+/**
+ * Host limits for a request: the defaults, the site's overrides, and the
+ * robots.txt Crawl-delay when robots.txt is respected
+ */
+async function resolveHostLimits(url: string, options: SmartFetchOptions): Promise<HostLimits> {
+  const limits: HostLimits = {
+    concurrency: options.hostLimits?.concurrency ?? DEFAULT_HOST_LIMITS.concurrency,
+    minDelayMs: options.hostLimits?.minDelayMs ?? DEFAULT_HOST_LIMITS.minDelayMs,
+  };
+
+  if (options.respectRobotsTxt) {
+    const crawlDelayMs = (await getRobotsRules(url))?.crawlDelayMs;
+    if (crawlDelayMs) {
+      limits.minDelayMs = Math.max(limits.minDelayMs, crawlDelayMs);
+    }
+  }
+
+  return limits;
 }
 
 /**
@@ -165,9 +329,17 @@ export async function fetchHtmlWithStrategy(
 ): Promise<string | null> {
   switch (strategy) {
     case 'crawlee':
-      return fetchWithCrawlee(url, userAgent, timeout);
+      return hostRateLimiter.schedule(url, DEFAULT_HOST_LIMITS, () =>
+        fetchWithCrawlee(url, userAgent, timeout)
+      );
     case 'fetch':
-      return fetchWithLegacyFetch(url, userAgent);
+      return hostRateLimiter.schedule(url, DEFAULT_HOST_LIMITS, () =>
+        fetchWithLegacyFetch(url, userAgent)
+      );
+    case 'browser':
+      return hostRateLimiter.schedule(url, DEFAULT_HOST_LIMITS, () =>
+        fetchWithBrowser(url, userAgent, timeout)
+      );
     default:
       logError(`Unknown fetch strategy: ${strategy}`);
       return null;
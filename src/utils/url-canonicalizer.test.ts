@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, resolveCanonicalLink, urlVariants } from './url-canonicalizer.js';
+
+describe('canonicalizeUrl', () => {
+  it('drops the fragment, default port and tracking parameters', () => {
+    expect(
+      canonicalizeUrl('https://Example.COM:443/news/1?utm_source=rss&fbclid=abc#comments')
+    ).toBe('https://example.com/news/1');
+  });
+
+  it('keeps allowlisted parameters sorted by name', () => {
+    expect(canonicalizeUrl('http://example.com/?utm_medium=feed&p=123')).toBe(
+      'http://example.com/?p=123'
+    );
+    expect(canonicalizeUrl('http://example.com/view?page=2&id=5&ref=top', ['page', 'id'])).toBe(
+      'http://example.com/view?id=5&page=2'
+    );
+  });
+
+  it('trims surrounding whitespace', () => {
+    expect(canonicalizeUrl('  https://example.com/a  ')).toBe('https://example.com/a');
+  });
+
+  it('rejects invalid and non-http URLs', () => {
+    expect(canonicalizeUrl('not a url')).toBeNull();
+    expect(canonicalizeUrl('ftp://example.com/file')).toBeNull();
+    expect(canonicalizeUrl('javascript:void(0)')).toBeNull();
+  });
+});
+
+describe('urlVariants', () => {
+  it('lists both schemes with and without the trailing slash', () => {
+    expect(urlVariants('https://example.com/news/1').sort()).toEqual([
+      'http://example.com/news/1',
+      'http://example.com/news/1/',
+      'https://example.com/news/1',
+      'https://example.com/news/1/',
+    ]);
+  });
+
+  it('does not strip the root path', () => {
+    expect(urlVariants('https://example.com/').sort()).toEqual([
+      'http://example.com/',
+      'https://example.com/',
+    ]);
+  });
+});
+
+describe('resolveCanonicalLink', () => {
+  const page = (href: string) => `<html><head><link rel="canonical" href="${href}"></head></html>`;
+
+  it('resolves a relative canonical link', () => {
+    expect(resolveCanonicalLink(page('/news/1?utm_source=x'), 'https://example.com/amp/1')).toBe(
+      'https://example.com/news/1'
+    );
+  });
+
+  it('accepts the www and bare host as the same site', () => {
+    expect(resolveCanonicalLink(page('https://www.example.com/a'), 'https://example.com/b')).toBe(
+      'https://www.example.com/a'
+    );
+  });
+
+  it('rejects a canonical link to another host', () => {
+    expect(resolveCanonicalLink(page('https://other.com/a'), 'https://example.com/a')).toBeNull();
+  });
+
+  it('returns null without a canonical link', () => {
+    expect(resolveCanonicalLink('<html></html>', 'https://example.com/a')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * URL canonicalization for article deduplication
+ */
+
+import * as cheerio from 'cheerio';
+
+/**
+ * Query parameters kept by default because they identify the article
+ * (WordPress permalinks such as ?p=123)
+ */
+export const DEFAULT_ALLOWED_QUERY_PARAMS = ['p', 'page_id'];
+
+/**
+ * Canonicalize an article URL
+ * - drops the fragment and default ports
+ * - lower-cases the hostname
+ * - keeps only allowlisted query parameters, sorted by name
+ *
+ * @returns The canonical URL, or null if the input is not an http(s) URL
+ */
+export function canonicalizeUrl(
+  rawUrl: string,
+  allowedQueryParams: string[] = DEFAULT_ALLOWED_QUERY_PARAMS
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  url.hash = '';
+  url.hostname = url.hostname.toLowerCase();
+
+  const allowed = new Set(allowedQueryParams);
+  const kept = Array.from(url.searchParams.entries())
+    .filter(([key]) => allowed.has(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(kept).toString();
+
+  return url.href;
+}
+
+/**
+ * Get equivalent spellings of a canonical URL (http/https, with/without
+ * trailing slash) for matching against URLs that are already stored
+ */
+export function urlVariants(canonicalUrl: string): string[] {
+  const url = new URL(canonicalUrl);
+  const variants = new Set<string>();
+
+  for (const protocol of ['https:', 'http:']) {
+    url.protocol = protocol;
+    const path = url.pathname;
+
+    variants.add(url.href);
+    if (path.length > 1) {
+      url.pathname = path.endsWith('/') ? path.slice(0, -1) : `${path}/`;
+      variants.add(url.href);
+      url.pathname = path;
+    }
+  }
+
+  return Array.from(variants);
+}
+
+/**
+ * Resolve <link rel="canonical"> from fetched HTML
+ * Only canonical URLs on the same host (ignoring "www.") are trusted, so a
+ * page cannot claim to be an article of another site.
+ */
+export function resolveCanonicalLink(
+  html: string,
+  pageUrl: string,
+  allowedQueryParams: string[] = DEFAULT_ALLOWED_QUERY_PARAMS
+): string | null {
+  const $ = cheerio.load(html);
+  const href = $('link[rel="canonical"]').first().attr('href');
+  if (!href) return null;
+
+  let absolute: string;
+  try {
+    absolute = new URL(href.trim(), pageUrl).href;
+  } catch {
+    return null;
+  }
+
+  const canonical = canonicalizeUrl(absolute, allowedQueryParams);
+  if (!canonical) return null;
+
+  const stripWww = (host: string) => host.toLowerCase().replace(/^www\./, '');
+  if (stripWww(new URL(canonical).hostname) !== stripWww(new URL(pageUrl).hostname)) {
+    return null;
+  }
+
+  return canonical;
+}
@@ -0,0 +1,15 @@
+-- Per-category retention limit (categories.max_articles)
+alter table categories add column if not exists max_articles integer check (max_articles > 0);
+
+-- Retention excludes bookmarked articles with an embedded join, which
+-- PostgREST can only resolve through this foreign key
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'bookmarks_article_id_fkey'
+  ) then
+    alter table bookmarks
+      add constraint bookmarks_article_id_fkey
+      foreign key (article_id) references articles (id) on delete cascade;
+  end if;
+end $$;
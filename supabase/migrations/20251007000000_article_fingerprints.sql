@@ -0,0 +1,5 @@
+-- Simhash of an article's main text, for cross-site duplicate detection
+alter table articles add column if not exists fingerprint text;
+
+-- Duplicate detection loads the fingerprints of recent articles
+create index if not exists articles_created_at_idx on articles (created_at);
@@ -0,0 +1,5 @@
+-- Conditional GET state of each site's feed
+alter table sites
+  add column if not exists feed_etag text,
+  add column if not exists feed_last_modified text,
+  add column if not exists feed_hash text;
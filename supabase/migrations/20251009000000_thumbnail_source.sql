@@ -0,0 +1,2 @@
+-- Where an article's thumbnail was found (feed, page meta or body image)
+alter table articles add column if not exists thumbnail_source text;
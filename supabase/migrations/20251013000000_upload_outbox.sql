@@ -0,0 +1,17 @@
+-- Availability of an article's HTML in R2; null is treated as 'ok'
+alter table articles
+  add column if not exists content_status text
+  check (content_status in ('ok', 'pending', 'failed'));
+
+-- R2 uploads that failed during a scrape and wait for a retry
+create table if not exists upload_outbox (
+  id bigint generated always as identity primary key,
+  article_id bigint not null unique references articles (id) on delete cascade,
+  content text not null,
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null,
+  last_error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists upload_outbox_next_attempt_at_idx on upload_outbox (next_attempt_at);
@@ -0,0 +1,12 @@
+-- Scrape outcomes per site, used for backoff and auto-disable
+create table if not exists site_health (
+  site_id bigint primary key references sites (id) on delete cascade,
+  consecutive_failures integer not null default 0,
+  last_error_class text check (last_error_class in ('timeout', 'http', 'network', 'parse', 'unknown')),
+  last_error_message text,
+  last_success_at timestamptz,
+  last_failure_at timestamptz,
+  avg_items_per_fetch double precision,
+  fetch_count integer not null default 0,
+  disabled_at timestamptz
+);
@@ -0,0 +1,10 @@
+-- Structured report of each scrape run (RUN_REPORT_STORE=supabase)
+create table if not exists run_reports (
+  id bigint generated always as identity primary key,
+  started_at timestamptz not null,
+  finished_at timestamptz not null,
+  report jsonb not null
+);
+
+-- `diag runs` reads the latest reports
+create index if not exists run_reports_started_at_idx on run_reports (started_at desc);
@@ -0,0 +1,5 @@
+-- Replayed with queued uploads so a retry also archives and indexes the article
+alter table upload_outbox
+  add column if not exists raw_html text,
+  add column if not exists source_url text,
+  add column if not exists search jsonb;
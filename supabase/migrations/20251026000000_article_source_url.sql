@@ -0,0 +1,5 @@
+-- Feed link an article was found under, when its page declares another
+-- canonical URL; known feed links are skipped before fetching
+alter table articles add column if not exists source_url text;
+
+create index if not exists articles_source_url_idx on articles (source_url);
@@ -0,0 +1,8 @@
+-- Feed links dropped by body filter rules, so they are not fetched again
+create table if not exists filtered_items (
+  site_id bigint not null references sites (id) on delete cascade,
+  url text not null,
+  reason text not null,
+  filtered_at timestamptz not null default now(),
+  primary key (site_id, url)
+);
@@ -4,6 +4,23 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // articles-api runs its own tests in the Workers runtime
+    include: ['src/**/*.test.ts'],
+    // Placeholder settings so modules can load appConfig; unit tests make no requests
+    env: {
+      NODE_ENV: 'test',
+      SUPABASE_URL: 'http://localhost:54321',
+      SUPABASE_ROLE_KEY: 'test',
+      ARTICLE_TABLE: 'articles',
+      SITE_TABLE: 'sites',
+      CATEGORY_TABLE: 'categories',
+      SUPER_CATEGORY_TABLE: 'super_categories',
+      BOOKMARK_TABLE: 'bookmarks',
+      ALLOW_HOST_TABLE: 'allow_hosts',
+      GENERAL_REMOVE_TAGS_TABLE: 'general_remove_tags',
+      MAX_ARTICLES: '100',
+      BATCH_SIZE: '10',
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],